@@ -0,0 +1,36 @@
+import type { Backend, MailBackend } from "./shared/backend.ts";
+import { graphBackend } from "./ms-graph/backend.ts";
+import { ewsBackend } from "./ews/backend.ts";
+import { imapBackend } from "./imap/backend.ts";
+import { gmailBackend } from "./gmail/backend.ts";
+import { jmapBackend } from "./jmap/backend.ts";
+import { mailAppBackend } from "./mail-app/backend.ts";
+import { maildirBackend } from "./maildir/backend.ts";
+import { mboxBackend } from "./mbox/backend.ts";
+import { githubNotificationsBackend } from "./github-notifications/backend.ts";
+
+const registry: Record<Backend, MailBackend> = {
+  "graph": graphBackend,
+  "ews": ewsBackend,
+  "imap": imapBackend,
+  "gmail": gmailBackend,
+  "jmap": jmapBackend,
+  "mail-app": mailAppBackend,
+  "maildir": maildirBackend,
+  "mbox": mboxBackend,
+  "github-notifications": githubNotificationsBackend,
+};
+
+export const backendIds = Object.keys(registry) as Backend[];
+
+export const isBackend = (name: string): name is Backend =>
+  Object.hasOwn(registry, name);
+
+export const getBackend = (name: string): MailBackend => {
+  if (!isBackend(name)) {
+    throw new Error(
+      `Unknown backend '${name}' (expected one of: ${backendIds.join(", ")})`,
+    );
+  }
+  return registry[name];
+};
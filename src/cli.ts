@@ -1,51 +1,61 @@
 import { parseArgs } from "@std/cli/parse-args";
-import {
-  type Backend,
-  processEmails,
-  type ProcessOptions,
-} from "./processor.ts";
+import { processEmails, type ProcessOptions } from "./processor.ts";
 import {
   listBotPrsNeedingReview,
   listMyPrs,
   listPendingReviews,
 } from "./github/pr.ts";
 import {
-  batchMarkAsUnread,
-  fetchGitHubEmails,
-  organizeInboxEmails,
-} from "./mail-app/emails.ts";
+  type NotificationSync,
+  parseNotificationSync,
+} from "./github/notifications.ts";
+import { getBackend } from "./backends.ts";
+import {
+  type BackendCapability,
+  type MailBackend,
+  supports,
+  unsupportedMessage,
+} from "./shared/backend.ts";
+import { DEFAULT_ACTION, parseAction } from "./shared/action.ts";
+import { printHistory, undoRun } from "./undo.ts";
+import { loadPolicy, type Policy } from "./shared/policy.ts";
+import {
+  type Config,
+  getConfig,
+  loadAccounts,
+  printConfig,
+  sharedEnvConflicts,
+  useConfig,
+} from "./shared/config.ts";
 import {
   clearPrCache,
   printPrCacheStats,
   savePrCache,
 } from "./shared/pr-cache.ts";
 
-const getBotPatterns = (): string[] => {
-  const envBots = Deno.env.get("LGTM_BOTS");
-  if (envBots) {
-    return envBots.split(",").map((b) => b.trim().toLowerCase());
-  }
-  return ["dependabot"];
-};
-
 type UnreadOptions = {
+  backend: MailBackend;
   folder?: string;
   excludeBots?: boolean;
+  fullSync?: boolean;
 };
 
 const markGitHubEmailsUnread = async (
   options: UnreadOptions,
 ): Promise<void> => {
-  console.log("\nFetching GitHub emails from Mail.app...\n");
+  const { backend } = options;
+  console.log(`\nFetching GitHub emails via ${backend.displayName}...\n`);
 
-  const emails = await fetchGitHubEmails(options.folder);
+  const emails = await backend.fetchGitHubEmails(options.folder, {
+    fullSync: options.fullSync,
+  });
 
   if (emails.length === 0) {
     console.log("No GitHub emails found.");
     return;
   }
 
-  const botPatterns = getBotPatterns();
+  const botPatterns = getConfig().bots.value;
   const filtered = options.excludeBots
     ? emails.filter((e) => {
       const mailboxLower = e.mailbox?.toLowerCase() ?? "";
@@ -63,13 +73,7 @@ const markGitHubEmailsUnread = async (
 
   console.log(`Found ${filtered.length} emails to mark as unread.`);
 
-  const toMark = filtered.map((e) => ({
-    account: e.account!,
-    mailbox: e.mailbox!,
-    id: e.id,
-  }));
-
-  await batchMarkAsUnread(toMark);
+  await backend.setReadStatus!(filtered, false);
   console.log("\nDone.");
 };
 
@@ -85,24 +89,52 @@ Usage:
   deno task gtfo            # Actually delete (--confirm)
 
 Options:
-  --confirm                 Actually delete emails (default: dry-run)
+  --confirm                 Actually apply the action (default: dry-run)
+  --action <action>         What to do with matching emails: trash (default), archive,
+                            move:<folder>, mark-read, or categorize:<name>
   --folder <name>           Only scan specific github subfolder
+  --sync-notifications <m>  Mark the cleaned-up PRs' and issues' GitHub notification
+                            threads read or done (default: done)
+  --unsubscribe             With --sync-notifications, also unsubscribe from them
   --skip-mentions           Delete even if you were @mentioned
   --skip-review-requests    Delete even if you were requested as reviewer
+  --skip-team-mentions      Delete even if one of your teams was @mentioned
+  --skip-team-review-requests
+                            Delete even if one of your teams was requested as reviewer
+  --skip-assigned           Delete even if you are assigned
+  --skip-reviewed           Delete even if you reviewed the PR
   --ci-days <days>          Delete CI/workflow emails older than N days
+  --release-days <days>     Delete release announcement emails older than N days
+  --account-days <days>     Delete "[GitHub]" account emails older than N days
+  --skip-discussions        Keep emails on answered or closed discussions
+  --skip-security-alerts    Keep security alert emails even once fixed or dismissed
   --pending                 List PRs waiting for your review (no email deletion)
   --no-bot                  Exclude bot PRs (dependabot) from --pending/--unread
   --my                      Include your own PRs in --pending
   --include-blocked         In --pending, show PRs gated by teams you aren't in
   --mine                    List your open PRs with status (oldest last)
   --nudge                   List bot PRs you reviewed that need another approval (Slack format)
-  --tidy                    Tidy inbox: route GitHub emails to subfolders, delete canceled/past meetings
-  --unread                  Mark all GitHub emails as unread (mail-app only)
+  --tidy                    Tidy inbox: route GitHub emails to subfolders, delete canceled/past meetings (mail-app only)
+  --unread                  Mark all GitHub emails as unread
   --org <name>              Filter PRs by organization (or set LGTM_ORG)
   --force                   Bypass PR cache (default TTL: 15 min)
+  --full-sync               Ignore saved Graph/EWS sync state and rescan folders
   --clear-cache             Delete the PR cache and exit
+  --policy-check            Validate the policy file and show which rule each email hits
+  --profile <name>[,name]   Use named profiles from ~/.config/lgtm-gtfo/config.toml
+  --print-config            Show the resolved settings and where each one came from
+  --history                 List past --confirm runs recorded in the journal
+  --undo [run-id]           Move emails from a run back to their folders (default: last run;
+                            graph, ews and mail-app only)
   --graph                   Use Microsoft Graph API (requires OAuth)
-  --ews                     Use Exchange Web Services (requires OAuth)
+  --ews                     Use Exchange Web Services (OAuth, or Basic/NTLM on-prem)
+  --imap                    Use IMAP (requires IMAP_HOST/IMAP_USER/IMAP_PASSWORD)
+  --gmail                   Use Gmail API with github/* labels (requires OAuth)
+  --jmap                    Use JMAP (Fastmail, Stalwart; requires JMAP_SESSION_URL)
+  --mail-app                Use macOS Mail.app via AppleScript
+  --maildir                 Use a local Maildir (requires MAILDIR_ROOT)
+  --mbox                    Use local mbox files, read-only (requires MBOX_ROOT)
+  --github-notifications    Use GitHub notification threads instead of email
   --help                    Show this help message
 
 Files:
@@ -110,19 +142,50 @@ Files:
                             (matches against url, repo, title, author; # comments)
 
 Environment:
-  LGTM_BACKEND              Backend: graph (default), ews, or mail-app
+  LGTM_BACKEND              Backend: graph (default), ews, imap, gmail, jmap, mail-app, maildir, mbox,
+                            or github-notifications
   LGTM_ORG                  Filter PRs by organization
   GITHUB_HANDLE             Your GitHub username (for mention/reviewer checks)
+  GITHUB_TOKEN              Token for batched PR lookups (default: gh auth token)
+  LGTM_GRAPHQL_URL          GraphQL endpoint override, e.g. a local stub
+  LGTM_PROFILE              Profile to use when --profile is not given
+  LGTM_CONFIG               Path to the config file (default: ~/.config/lgtm-gtfo/config.toml)
+  LGTM_POLICY               Path to a policy file (default: ~/.config/lgtm-gtfo/policy.toml)
+  LGTM_GITHUB_HOSTS         GitHub hosts to handle, e.g. github.com,ghe.acme.com=noreply@ghe.acme.com
+  EWS_AUTH                  EWS auth: oauth (default), basic, or ntlm (on-prem Exchange)
+  EWS_USER, EWS_PASSWORD    EWS credentials for basic/ntlm (DOMAIN\\user or UPN)
+  EWS_URL                   EWS endpoint (default: Exchange Online, or Autodiscover via EWS_EMAIL)
+  EWS_AUTODISCOVER_TRUSTED  Extra domains Autodiscover may send credentials to and redirect to
+  EWS_SERVER_VERSION        RequestServerVersion (default: Exchange2016)
+  IMAP_HOST, IMAP_PORT      IMAP server (port defaults to 993, or 143 without TLS)
+  IMAP_USER, IMAP_PASSWORD  IMAP login credentials
+  IMAP_TLS                  tls (default), starttls, or none
+  IMAP_TRASH                Trash folder name (default: \\Trash special-use folder)
+  GMAIL_CLIENT_ID           Google OAuth desktop client ID (and GMAIL_CLIENT_SECRET)
+  GMAIL_API_BASE            Override Gmail API endpoint (also GMAIL_AUTH_URL, GMAIL_TOKEN_URL)
+  JMAP_SESSION_URL          JMAP session resource URL
+  JMAP_TOKEN                JMAP bearer token (or JMAP_USER and JMAP_PASSWORD)
+  MAILDIR_ROOT              Maildir root containing github/* folders
+  MAILDIR_TRASH             Maildir trash folder (default: Trash, i.e. .Trash)
+  MBOX_ROOT                 Directory containing github/* mbox files
 
 Backends:
   graph      Microsoft Graph API (default, requires OAuth)
-  ews        Exchange Web Services (requires OAuth)
+  ews        Exchange Web Services (Exchange Online or on-premises)
+  imap       Any IMAP server (Fastmail, Dovecot, local test servers)
+  gmail      Gmail / Google Workspace, github/* labels as folders
+  jmap       JMAP servers (Fastmail, Stalwart)
+  maildir    Local Maildir synced by mbsync/offlineimap
+  mbox       Local mbox files (read-only, dry run and --pending only)
+  github-notifications
+             GitHub's web inbox via the Notifications API; cleaned-up threads are marked done
   mail-app   macOS Mail.app via AppleScript (workaround for strict orgs)
 
 Examples:
   deno task lgtm                         # Dry run - see what would be deleted
   deno task gtfo                         # Actually move emails to trash
   deno task lgtm --folder dependabot     # Only scan github/dependabot folder
+  deno task gtfo --action archive        # Archive instead of deleting
 `);
 };
 
@@ -132,6 +195,12 @@ export const run = async (args: string[]): Promise<void> => {
       "confirm",
       "skip-mentions",
       "skip-review-requests",
+      "skip-team-mentions",
+      "skip-team-review-requests",
+      "skip-assigned",
+      "skip-reviewed",
+      "skip-discussions",
+      "skip-security-alerts",
       "pending",
       "no-bot",
       "my",
@@ -142,11 +211,33 @@ export const run = async (args: string[]): Promise<void> => {
       "help",
       "graph",
       "ews",
+      "imap",
+      "gmail",
+      "jmap",
+      "mail-app",
+      "maildir",
+      "mbox",
+      "github-notifications",
       "force",
+      "full-sync",
       "clear-cache",
+      "history",
       "include-blocked",
+      "policy-check",
+      "print-config",
+      "unsubscribe",
+    ],
+    string: [
+      "folder",
+      "ci-days",
+      "release-days",
+      "account-days",
+      "org",
+      "action",
+      "undo",
+      "profile",
+      "sync-notifications",
     ],
-    string: ["folder", "ci-days", "org"],
     alias: {
       h: "help",
     },
@@ -157,75 +248,219 @@ export const run = async (args: string[]): Promise<void> => {
     return;
   }
 
-  if (parsed["clear-cache"]) {
-    await clearPrCache();
-    console.log("PR cache cleared.");
+  let configs: Config[];
+  try {
+    configs = await loadAccounts({
+      profile: parsed.profile,
+      org: parsed.org,
+      backend: parsed.graph
+        ? "graph"
+        : parsed.ews
+        ? "ews"
+        : parsed.imap
+        ? "imap"
+        : parsed.gmail
+        ? "gmail"
+        : parsed.jmap
+        ? "jmap"
+        : parsed["mail-app"]
+        ? "mail-app"
+        : parsed.maildir
+        ? "maildir"
+        : parsed.mbox
+        ? "mbox"
+        : parsed["github-notifications"]
+        ? "github-notifications"
+        : undefined,
+    });
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    Deno.exitCode = 1;
     return;
   }
 
-  const envBackend = Deno.env.get("LGTM_BACKEND") as Backend | undefined;
-  const backend: Backend = parsed.graph
-    ? "graph"
-    : parsed.ews
-    ? "ews"
-    : envBackend ?? "graph";
+  for (const conflict of sharedEnvConflicts(configs)) {
+    console.error(`Warning: ${conflict}`);
+  }
 
-  const force = parsed.force ?? false;
+  if (parsed["print-config"]) {
+    configs.forEach(printConfig);
+    return;
+  }
 
-  try {
-    if (parsed.mine) {
-      await listMyPrs({ org: parsed.org, force });
-      return;
+  if (parsed["clear-cache"]) {
+    for (const config of configs) {
+      useConfig(config);
+      await clearPrCache();
+      console.log(
+        config.profile
+          ? `PR cache cleared for ${config.profile}.`
+          : "PR cache cleared.",
+      );
     }
+    return;
+  }
 
-    if (parsed.nudge) {
-      await listBotPrsNeedingReview({ org: parsed.org, force });
-      return;
-    }
+  if (parsed.history) {
+    await printHistory();
+    return;
+  }
 
-    if (parsed.tidy) {
-      await organizeInboxEmails(parsed.confirm ?? false);
+  if (parsed.undo !== undefined) {
+    await undoRun(parsed.undo || undefined);
+    return;
+  }
+
+  let action = DEFAULT_ACTION;
+  if (parsed.action) {
+    try {
+      action = parseAction(parsed.action);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      Deno.exitCode = 1;
       return;
     }
+  }
 
-    if (parsed.unread) {
-      await markGitHubEmailsUnread({
-        folder: parsed.folder,
-        excludeBots: parsed["no-bot"],
-      });
+  let syncNotifications: NotificationSync | undefined;
+  if (parsed["sync-notifications"] !== undefined) {
+    try {
+      syncNotifications = parseNotificationSync(
+        parsed["sync-notifications"] || "done",
+      );
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : String(e));
+      Deno.exitCode = 1;
       return;
     }
+  }
 
-    if (parsed.pending) {
-      await listPendingReviews({
-        excludeBots: parsed["no-bot"],
-        includeMine: parsed["my"],
-        includeBlocked: parsed["include-blocked"],
-        backend,
+  let policy: Policy | null;
+  try {
+    policy = await loadPolicy();
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    Deno.exitCode = 1;
+    return;
+  }
+
+  if (parsed["policy-check"] && !policy) {
+    console.error(
+      "No policy file found (policy.toml, policy.yaml or policy.json in ~/.config/lgtm-gtfo, or LGTM_POLICY).",
+    );
+    Deno.exitCode = 1;
+    return;
+  }
+
+  const runAccount = async (config: Config): Promise<void> => {
+    const backend = getBackend(config.backend.value);
+
+    const requireCapability = (
+      capability: BackendCapability,
+      flag: string,
+    ): boolean => {
+      if (supports(backend, capability)) return true;
+      console.error(unsupportedMessage(backend, flag));
+      Deno.exitCode = 1;
+      return false;
+    };
+
+    const force = parsed.force ?? false;
+    const fullSync = parsed["full-sync"] ?? false;
+
+    try {
+      if (parsed.mine) {
+        await listMyPrs({ org: parsed.org, force });
+        return;
+      }
+
+      if (parsed.nudge) {
+        await listBotPrsNeedingReview({ org: parsed.org, force });
+        return;
+      }
+
+      if (parsed.tidy) {
+        if (!requireCapability("tidy", "--tidy")) return;
+        await backend.tidyInbox!(parsed.confirm ?? false);
+        return;
+      }
+
+      if (parsed.unread) {
+        if (!requireCapability("mark-read", "--unread")) return;
+        await markGitHubEmailsUnread({
+          backend,
+          folder: parsed.folder,
+          excludeBots: parsed["no-bot"],
+          fullSync,
+        });
+        return;
+      }
+
+      if (parsed.pending) {
+        await listPendingReviews({
+          excludeBots: parsed["no-bot"],
+          includeMine: parsed["my"],
+          includeBlocked: parsed["include-blocked"],
+          backend,
+          folder: parsed.folder,
+          org: parsed.org,
+          force,
+          fullSync,
+        });
+        return;
+      }
+
+      const days = (value: string | undefined) =>
+        value ? parseInt(value, 10) : undefined;
+
+      const options: ProcessOptions = {
         folder: parsed.folder,
-        org: parsed.org,
+        skipMentions: parsed["skip-mentions"] ?? false,
+        skipReviewRequests: parsed["skip-review-requests"] ?? false,
+        skipTeamMentions: parsed["skip-team-mentions"] ?? false,
+        skipTeamReviewRequests: parsed["skip-team-review-requests"] ?? false,
+        skipAssigned: parsed["skip-assigned"] ?? false,
+        skipReviewed: parsed["skip-reviewed"] ?? false,
+        ciDays: days(parsed["ci-days"]),
+        releaseDays: days(parsed["release-days"]),
+        accountDays: days(parsed["account-days"]),
+        skipDiscussions: parsed["skip-discussions"] ?? false,
+        skipSecurityAlerts: parsed["skip-security-alerts"] ?? false,
+        confirm: parsed.confirm ?? false,
+        backend,
+        action,
         force,
-      });
-      return;
-    }
+        fullSync,
+        policy,
+        policyCheck: parsed["policy-check"] ?? false,
+        syncNotifications,
+        unsubscribe: parsed.unsubscribe ?? false,
+      };
 
-    const ciDays = parsed["ci-days"]
-      ? parseInt(parsed["ci-days"], 10)
-      : undefined;
-
-    const options: ProcessOptions = {
-      folder: parsed.folder,
-      skipMentions: parsed["skip-mentions"] ?? false,
-      skipReviewRequests: parsed["skip-review-requests"] ?? false,
-      ciDays,
-      confirm: parsed.confirm ?? false,
-      backend,
-      force,
-    };
+      await processEmails(options);
+    } finally {
+      printPrCacheStats();
+      await savePrCache();
+    }
+  };
 
-    await processEmails(options);
-  } finally {
-    printPrCacheStats();
-    await savePrCache();
+  for (const config of configs) {
+    useConfig(config);
+    if (configs.length > 1) {
+      console.log(`\n${"=".repeat(60)}`);
+      console.log(`Account: ${config.profile} (${config.backend.value})`);
+      console.log("=".repeat(60));
+    }
+    try {
+      await runAccount(config);
+    } catch (e) {
+      if (configs.length === 1) throw e;
+      console.error(
+        `Account ${config.profile} failed: ${
+          e instanceof Error ? e.message : e
+        }`,
+      );
+      Deno.exitCode = 1;
+    }
   }
 };
@@ -3,6 +3,14 @@ import {
   getAccessToken as getToken,
   type OAuthConfig,
 } from "../shared/oauth.ts";
+import {
+  createAuthenticateMessage,
+  createNegotiateMessage,
+  type NtlmCredentials,
+} from "./ntlm.ts";
+import { env, getConfig as getSettings } from "../shared/config.ts";
+
+export type EwsAuthMode = "oauth" | "basic" | "ntlm";
 
 const CLIENT_IDS: Record<string, string> = {
   "azure-cli": "04b07795-8ddb-461a-bbee-02f9e1bf7b46",
@@ -14,7 +22,7 @@ const EWS_SCOPES = [
   "offline_access",
 ];
 
-const getClientName = (): string => Deno.env.get("MS_CLIENT_ID") ?? "azure-cli";
+const getClientName = (): string => getSettings().msClientId.value;
 
 const getClientId = (): string => {
   const name = getClientName();
@@ -45,3 +53,100 @@ export const getEwsAccessToken = (): Promise<string> => getToken(getConfig());
 
 export const clearEwsStoredToken = (): Promise<void> =>
   clearStoredToken("ews-tokens.json");
+
+export const getEwsAuthMode = (): EwsAuthMode => {
+  const mode = (env("EWS_AUTH") ?? "oauth").toLowerCase();
+  if (mode !== "oauth" && mode !== "basic" && mode !== "ntlm") {
+    throw new Error(`EWS_AUTH must be oauth, basic or ntlm (got '${mode}')`);
+  }
+  return mode;
+};
+
+// Accepts DOMAIN\user, user@domain (UPN) or a separate EWS_DOMAIN.
+const getCredentials = (): NtlmCredentials => {
+  const user = env("EWS_USER");
+  const password = env("EWS_PASSWORD");
+  if (!user || !password) {
+    throw new Error(
+      "EWS basic/NTLM auth requires EWS_USER and EWS_PASSWORD to be set.",
+    );
+  }
+  const [domain, name] = user.includes("\\")
+    ? user.split("\\", 2)
+    : [env("EWS_DOMAIN") ?? "", user];
+  return { user: name, password, domain };
+};
+
+const basicAuthorization = (): string => {
+  const { user, password, domain } = getCredentials();
+  const login = domain ? `${domain}\\${user}` : user;
+  const bytes = new TextEncoder().encode(`${login}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+const withAuthorization = (
+  init: RequestInit,
+  authorization: string,
+): RequestInit => ({
+  ...init,
+  headers: { ...init.headers, Authorization: authorization },
+});
+
+// NTLM authenticates a connection, not a request. Each request gets its own
+// client holding a single HTTP/1.1 connection, so both legs of the handshake
+// go over the same one. The negotiate leg is a bodyless GET; the payload is
+// only sent with the authenticate message. The response is read before the
+// client (and its connection) is closed.
+const ntlmFetch = async (url: string, init: RequestInit): Promise<Response> => {
+  const client = Deno.createHttpClient({ http2: false, poolMaxIdlePerHost: 1 });
+  try {
+    const negotiate = await fetch(url, {
+      method: "GET",
+      headers: { Authorization: `NTLM ${createNegotiateMessage()}` },
+      redirect: init.redirect,
+      client,
+    });
+    const challenge = negotiate.headers.get("WWW-Authenticate")
+      ?.match(/NTLM\s+([A-Za-z0-9+/=]+)/)?.[1];
+    await negotiate.body?.cancel();
+
+    const response = await fetch(url, {
+      ...(negotiate.status === 401 && challenge
+        ? withAuthorization(
+          init,
+          `NTLM ${createAuthenticateMessage(challenge, getCredentials())}`,
+        )
+        : init),
+      client,
+    });
+    const body = await response.arrayBuffer();
+    // Null-body statuses can't be rebuilt with a body, even an empty one.
+    return new Response(
+      [204, 205, 304].includes(response.status) ? null : body,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      },
+    );
+  } finally {
+    client.close();
+  }
+};
+
+export const ewsFetch = async (
+  url: string,
+  init: RequestInit,
+): Promise<Response> => {
+  switch (getEwsAuthMode()) {
+    case "basic":
+      return fetch(url, withAuthorization(init, basicAuthorization()));
+    case "ntlm":
+      return ntlmFetch(url, init);
+    case "oauth":
+      return fetch(
+        url,
+        withAuthorization(init, `Bearer ${await getEwsAccessToken()}`),
+      );
+  }
+};
@@ -0,0 +1,286 @@
+import { DOMParser, Element } from "deno-dom";
+import { ewsFetch, getEwsAuthMode } from "./auth.ts";
+import { escapeXml } from "./xml.ts";
+import { env, perAccount } from "../shared/config.ts";
+
+const OFFICE365_EWS_URL = "https://outlook.office365.com/EWS/Exchange.asmx";
+const MAX_REDIRECTS = 5;
+
+type DiscoveryResult =
+  | { kind: "url"; ewsUrl: string }
+  | { kind: "redirectAddress"; email: string }
+  | { kind: "redirectUrl"; url: string };
+
+const endpointState = perAccount((): { promise?: Promise<string> } => ({}));
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, "text/xml");
+  if (!doc?.documentElement) {
+    throw new Error("Failed to parse Autodiscover response XML");
+  }
+  return doc.documentElement;
+};
+
+const childText = (parent: Element, tagName: string): string | null =>
+  parent.getElementsByTagName(tagName)[0]?.textContent?.trim() || null;
+
+// Hosts Autodiscover may send credentials to, follow redirects to and take an
+// EWS URL from: the address's domain and its subdomains, Exchange Online, and
+// whatever EWS_AUTODISCOVER_TRUSTED lists (comma-separated domains).
+const trustedDomains = (email: string): string[] =>
+  [
+    email.split("@")[1] ?? "",
+    new URL(OFFICE365_EWS_URL).hostname,
+    ...(env("EWS_AUTODISCOVER_TRUSTED") ?? "").split(","),
+  ].map((d) => d.trim().toLowerCase()).filter(Boolean);
+
+// https only, on one of `domains` or a subdomain of one.
+export const isTrustedUrl = (url: string, domains: string[]): boolean => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  const host = parsed.hostname.toLowerCase();
+  return parsed.protocol === "https:" &&
+    domains.some((d) => host === d || host.endsWith(`.${d}`));
+};
+
+// Probes without credentials and only sends them when the server asks; the
+// caller has already vetted `url`. HTTP redirects aren't followed here but
+// returned, so they're vetted like Autodiscover's own redirects.
+const postXml = async (
+  url: string,
+  body: string,
+): Promise<string | DiscoveryResult> => {
+  const init: RequestInit = {
+    method: "POST",
+    headers: { "Content-Type": "text/xml; charset=utf-8" },
+    body,
+    redirect: "manual",
+  };
+  let response = await fetch(url, init);
+  if (response.status === 401) {
+    await response.body?.cancel();
+    response = await ewsFetch(url, init);
+  }
+
+  const location = response.headers.get("Location");
+  if (response.status >= 300 && response.status < 400 && location) {
+    await response.body?.cancel();
+    return { kind: "redirectUrl", url: new URL(location, url).href };
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${url}: ${response.status}`);
+  }
+  return text;
+};
+
+const poxRequest = (email: string): string =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<Autodiscover xmlns="http://schemas.microsoft.com/exchange/autodiscover/outlook/requestschema/2006">
+  <Request>
+    <EMailAddress>${escapeXml(email)}</EMailAddress>
+    <AcceptableResponseSchema>http://schemas.microsoft.com/exchange/autodiscover/outlook/responseschema/2006a</AcceptableResponseSchema>
+  </Request>
+</Autodiscover>`;
+
+// POX (autodiscover.xml): prefer the external (EXPR) URL over internal (EXCH).
+const discoverPox = async (
+  url: string,
+  email: string,
+): Promise<DiscoveryResult> => {
+  const posted = await postXml(url, poxRequest(email));
+  if (typeof posted !== "string") return posted;
+  const root = parseXml(posted);
+  const action = childText(root, "Action");
+
+  if (action === "redirectAddr") {
+    const address = childText(root, "RedirectAddr");
+    if (address) return { kind: "redirectAddress", email: address };
+  }
+  if (action === "redirectUrl") {
+    const target = childText(root, "RedirectUrl");
+    if (target) return { kind: "redirectUrl", url: target };
+  }
+
+  const protocols = [...root.getElementsByTagName("Protocol")];
+  for (const type of ["EXPR", "EXCH"]) {
+    const protocol = protocols.find((p) => childText(p, "Type") === type);
+    const ewsUrl = protocol ? childText(protocol, "EwsUrl") : null;
+    if (ewsUrl) return { kind: "url", ewsUrl };
+  }
+
+  const error = childText(root, "Message");
+  throw new Error(`${url}: no EwsUrl in response${error ? ` (${error})` : ""}`);
+};
+
+const soapRequest = (url: string, email: string): string =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"
+               xmlns:a="http://schemas.microsoft.com/exchange/2010/Autodiscover"
+               xmlns:wsa="http://www.w3.org/2005/08/addressing">
+  <soap:Header>
+    <a:RequestedServerVersion>Exchange2013</a:RequestedServerVersion>
+    <wsa:Action>http://schemas.microsoft.com/exchange/2010/Autodiscover/Autodiscover/GetUserSettings</wsa:Action>
+    <wsa:To>${escapeXml(url)}</wsa:To>
+  </soap:Header>
+  <soap:Body>
+    <a:GetUserSettingsRequestMessage>
+      <a:Request>
+        <a:Users>
+          <a:User>
+            <a:Mailbox>${escapeXml(email)}</a:Mailbox>
+          </a:User>
+        </a:Users>
+        <a:RequestedSettings>
+          <a:Setting>ExternalEwsUrl</a:Setting>
+          <a:Setting>InternalEwsUrl</a:Setting>
+        </a:RequestedSettings>
+      </a:Request>
+    </a:GetUserSettingsRequestMessage>
+  </soap:Body>
+</soap:Envelope>`;
+
+// SOAP (autodiscover.svc) GetUserSettings for ExternalEwsUrl/InternalEwsUrl.
+const discoverSoap = async (
+  url: string,
+  email: string,
+): Promise<DiscoveryResult> => {
+  const posted = await postXml(url, soapRequest(url, email));
+  if (typeof posted !== "string") return posted;
+  const root = parseXml(posted);
+  const userResponse = root.getElementsByTagName("UserResponse")[0] ?? root;
+  const errorCode = childText(userResponse, "ErrorCode");
+  const target = childText(userResponse, "RedirectTarget");
+
+  if (errorCode === "RedirectAddress" && target) {
+    return { kind: "redirectAddress", email: target };
+  }
+  if (errorCode === "RedirectUrl" && target) {
+    return { kind: "redirectUrl", url: target };
+  }
+
+  const settings = new Map(
+    [...userResponse.getElementsByTagName("UserSetting")].map((s) => [
+      childText(s, "Name"),
+      childText(s, "Value"),
+    ]),
+  );
+  const ewsUrl = settings.get("ExternalEwsUrl") ??
+    settings.get("InternalEwsUrl");
+  if (ewsUrl) return { kind: "url", ewsUrl };
+
+  throw new Error(
+    `${url}: no EWS URL in response${
+      errorCode && errorCode !== "NoError" ? ` (${errorCode})` : ""
+    }`,
+  );
+};
+
+const discoverAt = (url: string, email: string): Promise<DiscoveryResult> =>
+  url.toLowerCase().endsWith(".svc")
+    ? discoverSoap(url, email)
+    : discoverPox(url, email);
+
+const candidateUrls = (email: string): string[] => {
+  const override = env("EWS_AUTODISCOVER_URL");
+  if (override) return [override];
+
+  const domain = email.split("@")[1];
+  if (!domain) {
+    throw new Error(`Cannot autodiscover EWS for '${email}': not an address`);
+  }
+  return [
+    `https://autodiscover.${domain}/autodiscover/autodiscover.svc`,
+    `https://${domain}/autodiscover/autodiscover.svc`,
+    `https://autodiscover.${domain}/autodiscover/autodiscover.xml`,
+    `https://${domain}/autodiscover/autodiscover.xml`,
+  ];
+};
+
+// Candidates come from the address's own domain (or the configured
+// EWS_AUTODISCOVER_URL); every redirect and the resulting EWS URL must stay on
+// trusted domains, or the candidate counts as failed.
+export const discoverEwsUrl = async (email: string): Promise<string> => {
+  const errors: string[] = [];
+  const domains = trustedDomains(email);
+  const override = env("EWS_AUTODISCOVER_URL");
+  const isTrusted = (url: string) =>
+    url === override || isTrustedUrl(url, domains);
+  let address = email;
+  let urls = candidateUrls(address);
+
+  for (let hops = 0; hops <= MAX_REDIRECTS; hops++) {
+    let redirected = false;
+
+    for (const url of urls) {
+      try {
+        const result = await discoverAt(url, address);
+        if (result.kind === "url") {
+          if (!isTrusted(result.ewsUrl)) {
+            throw new Error(`${url}: untrusted EWS URL ${result.ewsUrl}`);
+          }
+          return result.ewsUrl;
+        }
+        if (result.kind === "redirectAddress") {
+          const domain = result.email.split("@")[1] ?? "";
+          if (!isTrustedUrl(`https://${domain}/`, domains)) {
+            throw new Error(
+              `${url}: refusing redirect to untrusted address ${result.email}`,
+            );
+          }
+          address = result.email;
+          urls = candidateUrls(address);
+        } else {
+          if (!isTrusted(result.url)) {
+            throw new Error(
+              `${url}: refusing redirect to untrusted ${result.url}`,
+            );
+          }
+          urls = [result.url];
+        }
+        redirected = true;
+        break;
+      } catch (e) {
+        errors.push(e instanceof Error ? e.message : String(e));
+      }
+    }
+
+    if (!redirected) break;
+  }
+
+  throw new Error(
+    `Autodiscover failed for ${email}:\n  ${errors.join("\n  ")}\n` +
+      "Set EWS_URL, or list the server's domain in EWS_AUTODISCOVER_TRUSTED.",
+  );
+};
+
+const getDiscoveryAddress = (): string | undefined => {
+  const email = env("EWS_EMAIL");
+  if (email) return email;
+  const user = env("EWS_USER");
+  return getEwsAuthMode() !== "oauth" && user?.includes("@") ? user : undefined;
+};
+
+export const getEwsUrl = (): Promise<string> => {
+  const state = endpointState();
+  if (!state.promise) {
+    state.promise = (async () => {
+      const configured = env("EWS_URL");
+      if (configured) return configured;
+
+      const email = getDiscoveryAddress();
+      if (!email) return OFFICE365_EWS_URL;
+
+      console.log(`Running Autodiscover for ${email}...`);
+      const url = await discoverEwsUrl(email);
+      console.log(`Using EWS endpoint ${url}`);
+      return url;
+    })();
+  }
+  return state.promise;
+};
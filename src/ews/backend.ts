@@ -0,0 +1,43 @@
+import type { MailBackend } from "../shared/backend.ts";
+import type { UnifiedEmail } from "../shared/types.ts";
+import {
+  batchArchive,
+  batchCategorize,
+  batchMoveToFolder,
+  batchMoveToTrash,
+  batchRestore,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+  resolveFolderXml,
+} from "./emails.ts";
+
+const toItemRefs = (emails: UnifiedEmail[]) =>
+  emails.map((e) => ({
+    id: e.id,
+    changeKey: e.changeKey!,
+    categories: e.categories,
+  }));
+
+export const ewsBackend: MailBackend = {
+  name: "ews",
+  displayName: "Exchange Web Services",
+  capabilities: new Set([
+    "trash",
+    "archive",
+    "move",
+    "mark-read",
+    "categorize",
+    "undo",
+  ]),
+  fetchGitHubEmails,
+  moveToTrash: (emails) => batchMoveToTrash(toItemRefs(emails)),
+  archive: (emails) => batchArchive(toItemRefs(emails)),
+  moveToFolder: async (emails, folder) => {
+    const toFolderXml = await resolveFolderXml(folder);
+    return batchMoveToFolder(toItemRefs(emails), toFolderXml, folder);
+  },
+  setReadStatus: (emails, read) => batchSetReadStatus(toItemRefs(emails), read),
+  categorize: (emails, category) =>
+    batchCategorize(toItemRefs(emails), category),
+  restore: (emails) => batchRestore(emails),
+};
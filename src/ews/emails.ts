@@ -1,11 +1,34 @@
-import { getEwsAccessToken } from "./auth.ts";
+import { ewsFetch } from "./auth.ts";
+import { getEwsUrl } from "./autodiscover.ts";
+import { escapeXml } from "./xml.ts";
 import { parsePrFromSubject } from "../shared/parse-subject.ts";
+import {
+  applyGitHubHeaders,
+  type GitHubHeaders,
+  headersFromRecord,
+} from "../shared/github-headers.ts";
+import { githubSenders } from "../shared/github-hosts.ts";
+import { bodyDetails } from "../shared/email-body.ts";
 import { Document, DOMParser, Element } from "deno-dom";
-import type { EwsEmail } from "../shared/types.ts";
+import {
+  type BatchResult,
+  emptyBatchResult,
+  mergeBatchResult,
+} from "../shared/backend.ts";
+import type { EwsEmail, FetchOptions } from "../shared/types.ts";
+import {
+  loadSyncStore,
+  saveSyncStore,
+  type SyncStore,
+} from "../shared/sync-state.ts";
+import { env } from "../shared/config.ts";
 
 export type { EwsEmail as GitHubEmail };
 
-const EWS_URL = "https://outlook.office365.com/EWS/Exchange.asmx";
+const SYNC_FILE = "ews-sync.json";
+const SYNC_PAGE_SIZE = 512;
+const HEADER_BATCH_SIZE = 50;
+const MAX_RETRIES = 5;
 
 type EwsFolder = {
   id: string;
@@ -13,36 +36,65 @@ type EwsFolder = {
   displayName: string;
 };
 
+const getServerVersion = (): string =>
+  env("EWS_SERVER_VERSION") ?? "Exchange2016";
+
 const soapEnvelope = (body: string): string =>
   `<?xml version="1.0" encoding="utf-8"?>
 <soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"
                xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types"
                xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages">
   <soap:Header>
-    <t:RequestServerVersion Version="Exchange2016"/>
+    <t:RequestServerVersion Version="${escapeXml(getServerVersion())}"/>
   </soap:Header>
   <soap:Body>
     ${body}
   </soap:Body>
 </soap:Envelope>`;
 
+const folderIdXml = (folderId: string, distinguished = false): string =>
+  distinguished
+    ? `<t:DistinguishedFolderId Id="${escapeXml(folderId)}"/>`
+    : `<t:FolderId Id="${escapeXml(folderId)}"/>`;
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exchange reports throttling as ErrorServerBusy, with a suggested delay.
+const serverBusyDelayMs = (text: string, attempt: number): number | null => {
+  if (!text.includes("ErrorServerBusy")) return null;
+  const backOff = text.match(/BackOffMilliseconds[^>]*>(\d+)</);
+  return backOff ? parseInt(backOff[1], 10) : 2 ** attempt * 1000;
+};
+
 const ewsRequest = async (body: string): Promise<Document> => {
-  const token = await getEwsAccessToken();
-  const response = await fetch(EWS_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "text/xml; charset=utf-8",
-      Authorization: `Bearer ${token}`,
-    },
-    body: soapEnvelope(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`EWS request failed: ${response.status} ${error}`);
+  let text = "";
+
+  for (let attempt = 0;; attempt++) {
+    const response = await ewsFetch(await getEwsUrl(), {
+      method: "POST",
+      headers: { "Content-Type": "text/xml; charset=utf-8" },
+      body: soapEnvelope(body),
+    });
+    text = await response.text();
+
+    const delay = response.status === 503
+      ? 2 ** attempt * 1000
+      : response.ok
+      ? null
+      : serverBusyDelayMs(text, attempt);
+    if (delay !== null && attempt < MAX_RETRIES) {
+      console.log(`  Exchange server busy, retrying in ${delay / 1000}s...`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`EWS request failed: ${response.status} ${text}`);
+    }
+    break;
   }
 
-  const text = await response.text();
   const doc = new DOMParser().parseFromString(text, "text/xml");
   if (!doc) {
     throw new Error("Failed to parse EWS response XML");
@@ -50,6 +102,11 @@ const ewsRequest = async (body: string): Promise<Document> => {
   return doc;
 };
 
+// deno-dom parses responses as HTML, so tagName comes back upper-cased
+// ("T:DELETE"); getElementsByTagName already ignores case.
+const isTag = (el: Element, tagName: string): boolean =>
+  el.tagName.toLowerCase() === tagName.toLowerCase();
+
 const getElementText = (parent: Element, tagName: string): string | null => {
   const el = parent.getElementsByTagName(tagName)[0];
   return el?.textContent ?? null;
@@ -87,14 +144,17 @@ const findGitHubFolder = async (): Promise<EwsFolder | null> => {
   return null;
 };
 
-const findSubFolders = async (parentFolderId: string): Promise<EwsFolder[]> => {
+const findSubFolders = async (
+  parentFolderId: string,
+  distinguished = false,
+): Promise<EwsFolder[]> => {
   const body = `
     <m:FindFolder Traversal="Shallow">
       <m:FolderShape>
         <t:BaseShape>Default</t:BaseShape>
       </m:FolderShape>
       <m:ParentFolderIds>
-        <t:FolderId Id="${parentFolderId}"/>
+        ${folderIdXml(parentFolderId, distinguished)}
       </m:ParentFolderIds>
     </m:FindFolder>`;
 
@@ -118,65 +178,202 @@ const findSubFolders = async (parentFolderId: string): Promise<EwsFolder[]> => {
   return folders;
 };
 
-const findEmailsInFolder = async (
+const toEwsEmail = (message: Element): EwsEmail | null => {
+  const itemIdEl = message.getElementsByTagName("t:ItemId")[0];
+  if (!itemIdEl) return null;
+  const subject = getElementText(message, "t:Subject") ?? "";
+  const { repo, prNumber } = parsePrFromSubject(subject);
+  return {
+    id: itemIdEl.getAttribute("Id") ?? "",
+    changeKey: itemIdEl.getAttribute("ChangeKey") ?? "",
+    subject,
+    receivedDateTime: getElementText(message, "t:DateTimeReceived") ?? "",
+    repo,
+    prNumber,
+    categories: [
+      ...message.getElementsByTagName("t:Categories")[0]
+        ?.getElementsByTagName("t:String") ?? [],
+    ].map((el) => el.textContent ?? ""),
+  };
+};
+
+const isFromGitHub = (message: Element): boolean =>
+  githubSenders().includes(
+    getElementText(message, "t:EmailAddress")?.toLowerCase() ?? "",
+  );
+
+type ItemDetails = {
+  headers: GitHubHeaders;
+  body: ReturnType<typeof bodyDetails>;
+};
+
+// SyncFolderItems cannot return bodies or InternetMessageHeaders, so new and
+// changed items are looked up with GetItem afterwards.
+const fetchItemDetails = async (
+  ids: string[],
+): Promise<Map<string, ItemDetails>> => {
+  const details = new Map<string, ItemDetails>();
+
+  for (let i = 0; i < ids.length; i += HEADER_BATCH_SIZE) {
+    const batch = ids.slice(i, i + HEADER_BATCH_SIZE);
+    const body = `
+    <m:GetItem>
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+        <t:BodyType>Text</t:BodyType>
+        <t:AdditionalProperties>
+          <t:FieldURI FieldURI="item:InternetMessageHeaders"/>
+          <t:FieldURI FieldURI="item:Body"/>
+        </t:AdditionalProperties>
+      </m:ItemShape>
+      <m:ItemIds>
+        ${batch.map((id) => itemIdXml({ id, changeKey: "" })).join("\n")}
+      </m:ItemIds>
+    </m:GetItem>`;
+
+    const doc = await ewsRequest(body);
+    for (const message of doc.getElementsByTagName("t:Message")) {
+      const id = (message as Element).getElementsByTagName("t:ItemId")[0]
+        ?.getAttribute("Id");
+      if (!id) continue;
+      const values = [
+        ...(message as Element).getElementsByTagName(
+          "t:InternetMessageHeader",
+        ),
+      ].map((h) => [
+        h.getAttribute("HeaderName")?.toLowerCase() ?? "",
+        h.textContent?.trim() ?? "",
+      ]);
+      details.set(id, {
+        headers: headersFromRecord(Object.fromEntries(values)),
+        body: bodyDetails(getElementText(message as Element, "t:Body") ?? ""),
+      });
+    }
+  }
+
+  return details;
+};
+
+// Applies SyncFolderItems changes on top of the stored index for one folder.
+export const syncFolder = async (
   folderId: string,
+  store: SyncStore<EwsEmail>,
+  fullSync: boolean,
   distinguished = false,
 ): Promise<EwsEmail[]> => {
-  const folderIdXml = distinguished
-    ? `<t:DistinguishedFolderId Id="${folderId}"/>`
-    : `<t:FolderId Id="${folderId}"/>`;
-  const body = `
-    <m:FindItem Traversal="Shallow">
+  const previous = fullSync ? undefined : store.folders[folderId];
+  const index = new Map(Object.entries(previous?.emails ?? {}));
+  let syncState = previous?.token ?? "";
+  let done = false;
+  const updated = new Set<string>();
+
+  while (!done) {
+    const body = `
+    <m:SyncFolderItems>
       <m:ItemShape>
-        <t:BaseShape>Default</t:BaseShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
         <t:AdditionalProperties>
           <t:FieldURI FieldURI="item:Subject"/>
           <t:FieldURI FieldURI="item:DateTimeReceived"/>
           <t:FieldURI FieldURI="message:From"/>
+          <t:FieldURI FieldURI="item:Categories"/>
         </t:AdditionalProperties>
       </m:ItemShape>
-      <m:IndexedPageItemView MaxEntriesReturned="1000" Offset="0" BasePoint="Beginning"/>
-      <m:Restriction>
-        <t:Contains ContainmentMode="Substring" ContainmentComparison="IgnoreCase">
-          <t:FieldURI FieldURI="message:From"/>
-          <t:Constant Value="notifications@github.com"/>
-        </t:Contains>
-      </m:Restriction>
-      <m:ParentFolderIds>
-        ${folderIdXml}
-      </m:ParentFolderIds>
-    </m:FindItem>`;
+      <m:SyncFolderId>
+        ${folderIdXml(folderId, distinguished)}
+      </m:SyncFolderId>
+      ${syncState ? `<m:SyncState>${escapeXml(syncState)}</m:SyncState>` : ""}
+      <m:MaxChangesReturned>${SYNC_PAGE_SIZE}</m:MaxChangesReturned>
+    </m:SyncFolderItems>`;
+
+    const doc = await ewsRequest(body);
+    const responseCode = doc.getElementsByTagName("m:ResponseCode")[0]
+      ?.textContent;
+
+    if (responseCode === "ErrorInvalidSyncStateData" && previous) {
+      console.log("  Sync state expired, resyncing folder from scratch");
+      return syncFolder(folderId, store, true, distinguished);
+    }
+    if (responseCode && responseCode !== "NoError") {
+      throw new Error(`EWS SyncFolderItems failed: ${responseCode}`);
+    }
 
-  const doc = await ewsRequest(body);
-  const messageElements = doc.getElementsByTagName("t:Message");
-  const emails: EwsEmail[] = [];
-
-  for (const message of messageElements) {
-    const itemIdEl = (message as Element).getElementsByTagName("t:ItemId")[0];
-    const subject = getElementText(message as Element, "t:Subject") ?? "";
-    const receivedDateTime =
-      getElementText(message as Element, "t:DateTimeReceived") ?? "";
-
-    if (itemIdEl) {
-      const { repo, prNumber } = parsePrFromSubject(subject);
-      emails.push({
-        id: itemIdEl.getAttribute("Id") ?? "",
-        changeKey: itemIdEl.getAttribute("ChangeKey") ?? "",
-        subject,
-        receivedDateTime,
-        repo,
-        prNumber,
-      });
+    const changes = doc.getElementsByTagName("m:Changes")[0];
+    for (const change of changes?.children ?? []) {
+      const itemIdEl = change.getElementsByTagName("t:ItemId")[0];
+      const id = itemIdEl?.getAttribute("Id");
+      if (!id) continue;
+
+      if (isTag(change, "t:Delete")) {
+        index.delete(id);
+        continue;
+      }
+      if (isTag(change, "t:ReadFlagChange")) {
+        const existing = index.get(id);
+        if (existing) {
+          existing.changeKey = itemIdEl.getAttribute("ChangeKey") ??
+            existing.changeKey;
+        }
+        continue;
+      }
+
+      const message = change.getElementsByTagName("t:Message")[0];
+      const email = message && isFromGitHub(message)
+        ? toEwsEmail(message)
+        : null;
+      if (email) {
+        index.set(id, email);
+        updated.add(id);
+      } else {
+        index.delete(id);
+      }
+    }
+
+    syncState = getElementText(doc.documentElement!, "m:SyncState") ??
+      syncState;
+    done = getElementText(doc.documentElement!, "m:IncludesLastItemInRange") !==
+      "false";
+  }
+
+  const details = await fetchItemDetails([...updated]);
+  for (const [id, { headers, body }] of details) {
+    const email = index.get(id);
+    if (email) {
+      index.set(id, { ...applyGitHubHeaders(email, headers), ...body });
     }
   }
 
-  return emails;
+  store.folders[folderId] = {
+    token: syncState,
+    syncedAt: Date.now(),
+    emails: Object.fromEntries(index),
+  };
+
+  if (previous) {
+    const changed = index.size - Object.keys(previous.emails).length;
+    console.log(
+      `  ${index.size} GitHub emails (${
+        changed >= 0 ? "+" : ""
+      }${changed} since last sync)`,
+    );
+  }
+
+  return [...index.values()];
 };
 
+const withSource = (
+  emails: EwsEmail[],
+  folderId: string,
+  mailbox: string,
+): EwsEmail[] => emails.map((e) => ({ ...e, folderId, mailbox }));
+
 export const fetchGitHubEmails = async (
   folderName?: string,
+  options: FetchOptions = {},
 ): Promise<EwsEmail[]> => {
   const allEmails: EwsEmail[] = [];
+  const store = await loadSyncStore<EwsEmail>(SYNC_FILE);
+  const fullSync = options.fullSync ?? false;
   const scanInbox = folderName === undefined ||
     folderName?.toLowerCase() === "inbox";
   const scanGithub = folderName === undefined ||
@@ -207,18 +404,22 @@ export const fetchGitHubEmails = async (
 
       for (const folder of filteredFolders) {
         console.log(`Scanning folder: github/${folder.displayName}`);
-        const emails = await findEmailsInFolder(folder.id);
-        allEmails.push(...emails);
+        const emails = await syncFolder(folder.id, store, fullSync);
+        allEmails.push(
+          ...withSource(emails, folder.id, `github/${folder.displayName}`),
+        );
       }
     }
   }
 
   if (scanInbox) {
     console.log("Scanning folder: Inbox");
-    const emails = await findEmailsInFolder("inbox", true);
-    allEmails.push(...emails);
+    const emails = await syncFolder("inbox", store, fullSync, true);
+    allEmails.push(...withSource(emails, "inbox", "Inbox"));
   }
 
+  await saveSyncStore(SYNC_FILE, store);
+
   return allEmails;
 };
 
@@ -232,42 +433,275 @@ export const moveToTrash = async (
         <t:DistinguishedFolderId Id="deleteditems"/>
       </m:ToFolderId>
       <m:ItemIds>
-        <t:ItemId Id="${itemId}" ChangeKey="${changeKey}"/>
+        ${itemIdXml({ id: itemId, changeKey })}
       </m:ItemIds>
     </m:MoveItem>`;
 
   await ewsRequest(body);
 };
 
-export const batchMoveToTrash = async (
-  items: Array<{ id: string; changeKey: string }>,
-): Promise<void> => {
+const DISTINGUISHED_FOLDERS = [
+  "inbox",
+  "archive",
+  "deleteditems",
+  "junkemail",
+  "drafts",
+  "sentitems",
+];
+
+export const resolveFolderXml = async (path: string): Promise<string> => {
+  if (DISTINGUISHED_FOLDERS.includes(path.toLowerCase())) {
+    return folderIdXml(path.toLowerCase(), true);
+  }
+
+  const segments = path.split("/").filter(Boolean);
+  let parent: EwsFolder | null = null;
+
+  for (const segment of segments) {
+    const folders: EwsFolder[] = parent
+      ? await findSubFolders(parent.id)
+      : await findSubFolders("msgfolderroot", true);
+    const match = folders.find(
+      (f) => f.displayName.toLowerCase() === segment.toLowerCase(),
+    );
+    if (!match) {
+      throw new Error(`Mail folder '${path}' not found`);
+    }
+    parent = match;
+  }
+
+  if (!parent) {
+    throw new Error(`Invalid mail folder '${path}'`);
+  }
+  return folderIdXml(parent.id);
+};
+
+type EwsItemRef = { id: string; changeKey: string };
+
+// ChangeKey is optional; journal entries used by --undo only keep the ID.
+const itemIdXml = (item: EwsItemRef): string =>
+  item.changeKey
+    ? `<t:ItemId Id="${escapeXml(item.id)}" ChangeKey="${
+      escapeXml(item.changeKey)
+    }"/>`
+    : `<t:ItemId Id="${escapeXml(item.id)}"/>`;
+
+const ITEM_ERROR_HINTS: Record<string, string> = {
+  ErrorStaleObject: "item changed since it was fetched, rerun to refresh",
+  ErrorIrresolvableConflict:
+    "item changed since it was fetched, rerun to refresh",
+};
+
+// Sends one batch and sorts its items by the per-item ResponseCode; returns
+// the items that hit ErrorServerBusy so the caller can retry them.
+const sendBatch = async (
+  batch: EwsItemRef[],
+  toBody: (batch: EwsItemRef[]) => string,
+  result: BatchResult,
+): Promise<EwsItemRef[]> => {
+  const doc = await ewsRequest(toBody(batch));
+  const messages = doc.getElementsByTagName("m:ResponseMessages")[0]
+    ?.children ?? [];
+  const busy: EwsItemRef[] = [];
+
+  for (const [index, item] of batch.entries()) {
+    const message = messages[index];
+    const code = message ? getElementText(message, "m:ResponseCode") : null;
+
+    if (code === "NoError") {
+      result.succeeded++;
+      // MoveItem responses carry the item's new ID in the target folder
+      const newId = message!.getElementsByTagName("t:ItemId")[0]
+        ?.getAttribute("Id");
+      if (newId && newId !== item.id) {
+        (result.movedTo ??= {})[item.id] = newId;
+      }
+    } else if (code === "ErrorItemNotFound") {
+      result.skipped++;
+      (result.notFound ??= []).push(item.id);
+    } else if (code === "ErrorServerBusy") {
+      busy.push(item);
+    } else {
+      const detail = code
+        ? ITEM_ERROR_HINTS[code] ??
+          getElementText(message!, "m:MessageText") ?? ""
+        : "no response for item";
+      result.failed++;
+      (result.failedIds ??= []).push(item.id);
+      result.errors.push(`${item.id}: ${code ?? "Missing"} ${detail}`.trim());
+    }
+  }
+
+  return busy;
+};
+
+const runInBatches = async (
+  items: EwsItemRef[],
+  toBody: (batch: EwsItemRef[]) => string,
+  describe: (processed: number, total: number) => string,
+): Promise<BatchResult> => {
   const batchSize = 50;
-  const batches = Array.from(
-    { length: Math.ceil(items.length / batchSize) },
-    (_, i) => items.slice(i * batchSize, (i + 1) * batchSize),
-  );
+  const result = emptyBatchResult();
+
+  for (let i = 0; i < items.length; i += batchSize) {
+    let pending = items.slice(i, i + batchSize);
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      try {
+        pending = await sendBatch(pending, toBody, result);
+      } catch (e) {
+        result.failed += pending.length;
+        (result.failedIds ??= []).push(...pending.map((item) => item.id));
+        result.errors.push(String(e));
+        break;
+      }
+      if (pending.length === 0) break;
+      if (attempt >= MAX_RETRIES) {
+        result.failed += pending.length;
+        (result.failedIds ??= []).push(...pending.map((item) => item.id));
+        result.errors.push(
+          `${pending.length} items still throttled (ErrorServerBusy)`,
+        );
+        break;
+      }
+      const delay = 2 ** attempt * 1000;
+      console.log(
+        `  ${pending.length} items throttled, retrying in ${delay / 1000}s...`,
+      );
+      await sleep(delay);
+    }
 
-  for (const [index, batch] of batches.entries()) {
-    const itemIds = batch
-      .map((item) =>
-        `<t:ItemId Id="${item.id}" ChangeKey="${item.changeKey}"/>`
-      )
-      .join("\n");
+    console.log(
+      describe(result.succeeded, items.length) +
+        (result.skipped > 0 ? ` (${result.skipped} already gone)` : ""),
+    );
+  }
 
-    const body = `
+  if (result.errors.length > 0) {
+    console.log(`\nWarnings: ${result.errors.length} issues occurred`);
+  }
+
+  return result;
+};
+
+export const batchMoveToFolder = (
+  items: EwsItemRef[],
+  toFolderXml: string,
+  label: string,
+): Promise<BatchResult> =>
+  runInBatches(
+    items,
+    (batch) => `
       <m:MoveItem>
         <m:ToFolderId>
-          <t:DistinguishedFolderId Id="deleteditems"/>
+          ${toFolderXml}
         </m:ToFolderId>
         <m:ItemIds>
-          ${itemIds}
+          ${batch.map(itemIdXml).join("\n")}
         </m:ItemIds>
-      </m:MoveItem>`;
+      </m:MoveItem>`,
+    (processed, total) => `Moved ${processed}/${total} emails to ${label}`,
+  );
 
-    await ewsRequest(body);
+export const batchArchive = (items: EwsItemRef[]): Promise<BatchResult> =>
+  batchMoveToFolder(items, folderIdXml("archive", true), "archive");
 
-    const processed = Math.min((index + 1) * batchSize, items.length);
-    console.log(`Moved ${processed}/${items.length} emails to trash`);
+export const batchMoveToTrash = (
+  items: EwsItemRef[],
+): Promise<BatchResult> =>
+  batchMoveToFolder(
+    items,
+    `<t:DistinguishedFolderId Id="deleteditems"/>`,
+    "trash",
+  );
+
+export const batchSetReadStatus = (
+  items: EwsItemRef[],
+  isRead: boolean,
+): Promise<BatchResult> =>
+  runInBatches(
+    items,
+    (batch) => `
+      <m:UpdateItem MessageDisposition="SaveOnly" ConflictResolution="AutoResolve">
+        <m:ItemChanges>
+          ${
+      batch.map((item) => `
+          <t:ItemChange>
+            ${itemIdXml(item)}
+            <t:Updates>
+              <t:SetItemField>
+                <t:FieldURI FieldURI="message:IsRead"/>
+                <t:Message>
+                  <t:IsRead>${isRead}</t:IsRead>
+                </t:Message>
+              </t:SetItemField>
+            </t:Updates>
+          </t:ItemChange>`).join("")
+    }
+        </m:ItemChanges>
+      </m:UpdateItem>`,
+    (processed, total) =>
+      `Marked ${processed}/${total} emails as ${isRead ? "read" : "unread"}`,
+  );
+
+export const batchCategorize = (
+  items: Array<EwsItemRef & { categories?: string[] }>,
+  category: string,
+): Promise<BatchResult> => {
+  const existing = new Map(items.map((i) => [i.id, i.categories ?? []]));
+  return runInBatches(
+    items,
+    (batch) => `
+      <m:UpdateItem MessageDisposition="SaveOnly" ConflictResolution="AutoResolve">
+        <m:ItemChanges>
+          ${
+      batch.map((item) => `
+          <t:ItemChange>
+            ${itemIdXml(item)}
+            <t:Updates>
+              <t:SetItemField>
+                <t:FieldURI FieldURI="item:Categories"/>
+                <t:Message>
+                  <t:Categories>
+                    ${
+        [...new Set([...existing.get(item.id) ?? [], category])]
+          .map((c) => `<t:String>${escapeXml(c)}</t:String>`).join("")
+      }
+                  </t:Categories>
+                </t:Message>
+              </t:SetItemField>
+            </t:Updates>
+          </t:ItemChange>`).join("")
+    }
+        </m:ItemChanges>
+      </m:UpdateItem>`,
+    (processed, total) =>
+      `Categorized ${processed}/${total} emails as '${category}'`,
+  );
+};
+
+export const batchRestore = async (
+  items: Array<{ id: string; sourceFolder: string; sourceLabel: string }>,
+): Promise<BatchResult> => {
+  const result = emptyBatchResult();
+  const byFolder = new Map<string, typeof items>();
+  for (const item of items) {
+    byFolder.set(item.sourceFolder, [
+      ...byFolder.get(item.sourceFolder) ?? [],
+      item,
+    ]);
   }
+
+  for (const [folderId, folderItems] of byFolder.entries()) {
+    mergeBatchResult(
+      result,
+      await batchMoveToFolder(
+        folderItems.map((i) => ({ id: i.id, changeKey: "" })),
+        folderIdXml(folderId, DISTINGUISHED_FOLDERS.includes(folderId)),
+        folderItems[0].sourceLabel,
+      ),
+    );
+  }
+
+  return result;
 };
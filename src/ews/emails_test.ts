@@ -0,0 +1,113 @@
+import { assertEquals } from "@std/assert";
+import type { SyncStore } from "../shared/sync-state.ts";
+import type { EwsEmail } from "../shared/types.ts";
+import { syncFolder } from "./emails.ts";
+
+const envelope = (body: string) =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/">
+  <s:Body>${body}</s:Body>
+</s:Envelope>`;
+
+const SYNC_RESPONSE = envelope(`
+<m:SyncFolderItemsResponse
+    xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages"
+    xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types">
+  <m:ResponseMessages>
+    <m:SyncFolderItemsResponseMessage ResponseClass="Success">
+      <m:ResponseCode>NoError</m:ResponseCode>
+      <m:SyncState>state-2</m:SyncState>
+      <m:IncludesLastItemInRange>true</m:IncludesLastItemInRange>
+      <m:Changes>
+        <t:ReadFlagChange>
+          <t:ItemId Id="read" ChangeKey="read-2"/>
+          <t:IsRead>true</t:IsRead>
+        </t:ReadFlagChange>
+        <t:Delete>
+          <t:ItemId Id="gone" ChangeKey="gone-2"/>
+        </t:Delete>
+        <t:Create>
+          <t:Message>
+            <t:ItemId Id="new" ChangeKey="new-1"/>
+            <t:Subject>Re: [acme/widgets] Fix the thing (PR #7)</t:Subject>
+            <t:DateTimeReceived>2024-05-01T10:00:00Z</t:DateTimeReceived>
+            <t:From>
+              <t:Mailbox>
+                <t:EmailAddress>notifications@github.com</t:EmailAddress>
+              </t:Mailbox>
+            </t:From>
+          </t:Message>
+        </t:Create>
+      </m:Changes>
+    </m:SyncFolderItemsResponseMessage>
+  </m:ResponseMessages>
+</m:SyncFolderItemsResponse>`);
+
+const GET_ITEM_RESPONSE = envelope(`
+<m:GetItemResponse
+    xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages">
+  <m:ResponseMessages/>
+</m:GetItemResponse>`);
+
+const stored = (id: string): EwsEmail => ({
+  id,
+  changeKey: `${id}-1`,
+  subject: `Re: [acme/widgets] Email ${id} (PR #1)`,
+  receivedDateTime: "2024-04-01T10:00:00Z",
+  repo: "acme/widgets",
+  prNumber: 1,
+});
+
+Deno.test("sync keeps read emails, drops deleted ones and adds new ones", async () => {
+  const vars = {
+    EWS_URL: "https://mail.example.com/EWS/Exchange.asmx",
+    EWS_AUTH: "basic",
+    EWS_USER: "me@example.com",
+    EWS_PASSWORD: "secret",
+  };
+  const saved = Object.keys(vars).map((name) => [name, Deno.env.get(name)]);
+  for (const [name, value] of Object.entries(vars)) Deno.env.set(name, value);
+  const originalFetch = globalThis.fetch;
+  const requests: string[] = [];
+  globalThis.fetch = (_input, init) => {
+    const body = String(init?.body);
+    requests.push(body.includes("<m:SyncFolderItems>") ? "sync" : "get");
+    return Promise.resolve(
+      new Response(
+        body.includes("<m:SyncFolderItems>")
+          ? SYNC_RESPONSE
+          : GET_ITEM_RESPONSE,
+      ),
+    );
+  };
+  const { log } = console;
+  console.log = () => {};
+
+  try {
+    const store: SyncStore<EwsEmail> = {
+      folders: {
+        inbox: {
+          token: "state-1",
+          syncedAt: 0,
+          emails: { read: stored("read"), gone: stored("gone") },
+        },
+      },
+    };
+
+    const emails = await syncFolder("inbox", store, false, true);
+
+    assertEquals(emails.map((e) => [e.id, e.changeKey]), [
+      ["read", "read-2"],
+      ["new", "new-1"],
+    ]);
+    assertEquals(store.folders.inbox.token, "state-2");
+    assertEquals(requests, ["sync", "get"]);
+  } finally {
+    console.log = log;
+    globalThis.fetch = originalFetch;
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name!);
+      else Deno.env.set(name!, value);
+    }
+  }
+});
@@ -0,0 +1,294 @@
+// Minimal NTLMv2 client (MS-NLMP) for on-premises Exchange. Web Crypto has no
+// MD4/MD5, so both digests are implemented here.
+
+const SIGNATURE = [0x4e, 0x54, 0x4c, 0x4d, 0x53, 0x53, 0x50, 0x00];
+
+const NEGOTIATE_UNICODE = 0x00000001;
+const NEGOTIATE_OEM = 0x00000002;
+const REQUEST_TARGET = 0x00000004;
+const NEGOTIATE_NTLM = 0x00000200;
+const NEGOTIATE_ALWAYS_SIGN = 0x00008000;
+const NEGOTIATE_EXTENDED_SESSIONSECURITY = 0x00080000;
+const NEGOTIATE_128 = 0x20000000;
+const NEGOTIATE_56 = 0x80000000;
+
+const NEGOTIATE_FLAGS = (NEGOTIATE_UNICODE | NEGOTIATE_OEM | REQUEST_TARGET |
+  NEGOTIATE_NTLM | NEGOTIATE_ALWAYS_SIGN |
+  NEGOTIATE_EXTENDED_SESSIONSECURITY | NEGOTIATE_128 | NEGOTIATE_56) >>> 0;
+
+// Seconds between 1601-01-01 (Windows FILETIME epoch) and 1970-01-01.
+const FILETIME_EPOCH_OFFSET = 11644473600n;
+
+export type NtlmCredentials = {
+  user: string;
+  password: string;
+  domain: string;
+  workstation?: string;
+};
+
+type Challenge = {
+  flags: number;
+  serverChallenge: Uint8Array;
+  targetInfo: Uint8Array;
+};
+
+const rotl = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+
+// Shared Merkle–Damgård padding for MD4 and MD5 (little-endian length).
+const padMessage = (data: Uint8Array): Uint32Array => {
+  const length = ((data.length + 8) >>> 6) * 64 + 64;
+  const padded = new Uint8Array(length);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(length - 4, Math.floor(data.length / 0x20000000), true);
+  const words = new Uint32Array(length / 4);
+  for (let i = 0; i < words.length; i++) {
+    words[i] = view.getUint32(i * 4, true);
+  }
+  return words;
+};
+
+const digestBytes = (state: number[]): Uint8Array => {
+  const out = new Uint8Array(16);
+  const view = new DataView(out.buffer);
+  state.forEach((word, i) => view.setUint32(i * 4, word >>> 0, true));
+  return out;
+};
+
+export const md4 = (data: Uint8Array): Uint8Array => {
+  const words = padMessage(data);
+  let [a, b, c, d] = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+
+  const f = (x: number, y: number, z: number) => (x & y) | (~x & z);
+  const g = (x: number, y: number, z: number) => (x & y) | (x & z) | (y & z);
+  const h = (x: number, y: number, z: number) => x ^ y ^ z;
+
+  for (let i = 0; i < words.length; i += 16) {
+    const x = words.subarray(i, i + 16);
+    const [aa, bb, cc, dd] = [a, b, c, d];
+
+    for (const k of [0, 4, 8, 12]) {
+      a = rotl((a + f(b, c, d) + x[k]) | 0, 3);
+      d = rotl((d + f(a, b, c) + x[k + 1]) | 0, 7);
+      c = rotl((c + f(d, a, b) + x[k + 2]) | 0, 11);
+      b = rotl((b + f(c, d, a) + x[k + 3]) | 0, 19);
+    }
+    for (const k of [0, 1, 2, 3]) {
+      a = rotl((a + g(b, c, d) + x[k] + 0x5a827999) | 0, 3);
+      d = rotl((d + g(a, b, c) + x[k + 4] + 0x5a827999) | 0, 5);
+      c = rotl((c + g(d, a, b) + x[k + 8] + 0x5a827999) | 0, 9);
+      b = rotl((b + g(c, d, a) + x[k + 12] + 0x5a827999) | 0, 13);
+    }
+    for (const k of [0, 2, 1, 3]) {
+      a = rotl((a + h(b, c, d) + x[k] + 0x6ed9eba1) | 0, 3);
+      d = rotl((d + h(a, b, c) + x[k + 8] + 0x6ed9eba1) | 0, 9);
+      c = rotl((c + h(d, a, b) + x[k + 4] + 0x6ed9eba1) | 0, 11);
+      b = rotl((b + h(c, d, a) + x[k + 12] + 0x6ed9eba1) | 0, 15);
+    }
+
+    a = (a + aa) | 0;
+    b = (b + bb) | 0;
+    c = (c + cc) | 0;
+    d = (d + dd) | 0;
+  }
+
+  return digestBytes([a, b, c, d]);
+};
+
+const MD5_SHIFTS = [
+  [7, 12, 17, 22],
+  [5, 9, 14, 20],
+  [4, 11, 16, 23],
+  [6, 10, 15, 21],
+];
+
+const MD5_CONSTANTS = Array.from(
+  { length: 64 },
+  (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0,
+);
+
+export const md5 = (data: Uint8Array): Uint8Array => {
+  const words = padMessage(data);
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+
+  for (let i = 0; i < words.length; i += 16) {
+    let [a, b, c, d] = state;
+
+    for (let j = 0; j < 64; j++) {
+      const round = j >>> 4;
+      let fn: number;
+      let index: number;
+      if (round === 0) {
+        fn = (b & c) | (~b & d);
+        index = j;
+      } else if (round === 1) {
+        fn = (d & b) | (~d & c);
+        index = (5 * j + 1) % 16;
+      } else if (round === 2) {
+        fn = b ^ c ^ d;
+        index = (3 * j + 5) % 16;
+      } else {
+        fn = c ^ (b | ~d);
+        index = (7 * j) % 16;
+      }
+      const next = d;
+      d = c;
+      c = b;
+      b = (b +
+        rotl(
+          (a + fn + MD5_CONSTANTS[j] + words[i + index]) | 0,
+          MD5_SHIFTS[round][j % 4],
+        )) | 0;
+      a = next;
+    }
+
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  return digestBytes(state);
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const hmacMd5 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? md5(key) : key);
+  const inner = block.map((b) => b ^ 0x36);
+  const outer = block.map((b) => b ^ 0x5c);
+  return md5(concat(outer, md5(concat(inner, data))));
+};
+
+const utf16le = (value: string): Uint8Array => {
+  const out = new Uint8Array(value.length * 2);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < value.length; i++) {
+    view.setUint16(i * 2, value.charCodeAt(i), true);
+  }
+  return out;
+};
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+export const ntowfv2 = (credentials: NtlmCredentials): Uint8Array =>
+  hmacMd5(
+    md4(utf16le(credentials.password)),
+    utf16le(credentials.user.toUpperCase() + credentials.domain),
+  );
+
+export const createNegotiateMessage = (): string => {
+  const message = new Uint8Array(32);
+  const view = new DataView(message.buffer);
+  message.set(SIGNATURE);
+  view.setUint32(8, 1, true);
+  view.setUint32(12, NEGOTIATE_FLAGS, true);
+  return toBase64(message);
+};
+
+const parseChallengeMessage = (encoded: string): Challenge => {
+  const message = fromBase64(encoded);
+  const view = new DataView(message.buffer);
+  if (message.length < 32 || view.getUint32(8, true) !== 2) {
+    throw new Error("Invalid NTLM challenge from server");
+  }
+  const flags = view.getUint32(20, true);
+  const serverChallenge = message.slice(24, 32);
+  const infoLength = message.length >= 48 ? view.getUint16(40, true) : 0;
+  const infoOffset = message.length >= 48 ? view.getUint32(44, true) : 0;
+  return {
+    flags,
+    serverChallenge,
+    targetInfo: message.slice(infoOffset, infoOffset + infoLength),
+  };
+};
+
+const fileTimeNow = (): Uint8Array => {
+  const out = new Uint8Array(8);
+  const ticks = (BigInt(Date.now()) / 1000n + FILETIME_EPOCH_OFFSET) *
+    10000000n;
+  new DataView(out.buffer).setBigUint64(0, ticks, true);
+  return out;
+};
+
+export const computeNtlmV2Response = (
+  credentials: NtlmCredentials,
+  serverChallenge: Uint8Array,
+  clientChallenge: Uint8Array,
+  timestamp: Uint8Array,
+  targetInfo: Uint8Array,
+): { lm: Uint8Array; nt: Uint8Array } => {
+  const key = ntowfv2(credentials);
+  const blob = concat(
+    new Uint8Array([1, 1, 0, 0, 0, 0, 0, 0]),
+    timestamp,
+    clientChallenge,
+    new Uint8Array(4),
+    targetInfo,
+    new Uint8Array(4),
+  );
+  const ntProof = hmacMd5(key, concat(serverChallenge, blob));
+  const lmProof = hmacMd5(key, concat(serverChallenge, clientChallenge));
+  return {
+    lm: concat(lmProof, clientChallenge),
+    nt: concat(ntProof, blob),
+  };
+};
+
+export const createAuthenticateMessage = (
+  challengeHeader: string,
+  credentials: NtlmCredentials,
+): string => {
+  const challenge = parseChallengeMessage(challengeHeader);
+  const { lm, nt } = computeNtlmV2Response(
+    credentials,
+    challenge.serverChallenge,
+    crypto.getRandomValues(new Uint8Array(8)),
+    fileTimeNow(),
+    challenge.targetInfo,
+  );
+
+  const fields = [
+    lm,
+    nt,
+    utf16le(credentials.domain),
+    utf16le(credentials.user),
+    utf16le(credentials.workstation ?? ""),
+    new Uint8Array(0),
+  ];
+  const headerLength = 64;
+  const message = new Uint8Array(
+    headerLength + fields.reduce((n, f) => n + f.length, 0),
+  );
+  const view = new DataView(message.buffer);
+  message.set(SIGNATURE);
+  view.setUint32(8, 3, true);
+
+  let offset = headerLength;
+  fields.forEach((field, i) => {
+    const pos = 12 + i * 8;
+    view.setUint16(pos, field.length, true);
+    view.setUint16(pos + 2, field.length, true);
+    view.setUint32(pos + 4, offset, true);
+    message.set(field, offset);
+    offset += field.length;
+  });
+  view.setUint32(60, (challenge.flags & NEGOTIATE_FLAGS) >>> 0, true);
+
+  return toBase64(message);
+};
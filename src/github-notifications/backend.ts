@@ -0,0 +1,16 @@
+import type { MailBackend } from "../shared/backend.ts";
+import {
+  batchMarkDone,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+} from "./emails.ts";
+
+export const githubNotificationsBackend: MailBackend = {
+  name: "github-notifications",
+  displayName: "GitHub Notifications API",
+  capabilities: new Set(["trash", "archive", "mark-read"]),
+  fetchGitHubEmails,
+  moveToTrash: batchMarkDone,
+  archive: batchMarkDone,
+  setReadStatus: batchSetReadStatus,
+};
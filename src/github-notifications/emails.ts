@@ -0,0 +1,108 @@
+import {
+  listNotificationThreads,
+  markThread,
+  type NotificationThread,
+} from "../github/notifications.ts";
+import { runWithConcurrency } from "../github/pr.ts";
+import {
+  type BatchResult,
+  emptyBatchResult,
+  mergeBatchResult,
+} from "../shared/backend.ts";
+import { getGitHubHosts, hostOf } from "../shared/github-hosts.ts";
+import type {
+  NotificationEmail,
+  ThreadKind,
+  UnifiedEmail,
+} from "../shared/types.ts";
+
+export type { NotificationEmail as GitHubEmail };
+
+const THREAD_KINDS: Record<string, ThreadKind> = {
+  PullRequest: "pull",
+  Issue: "issue",
+  Discussion: "discussion",
+  Release: "release",
+  CheckSuite: "actions",
+  WorkflowRun: "actions",
+};
+
+// The subject a notification email for the thread would have, so output and
+// classification read the same as for mail.
+const threadSubject = (thread: NotificationThread): string => {
+  const suffix = thread.prNumber
+    ? ` (PR #${thread.prNumber})`
+    : thread.issueNumber
+    ? ` (Issue #${thread.issueNumber})`
+    : "";
+  return `[${thread.repo}] ${thread.title}${suffix}`;
+};
+
+const toEmail = (thread: NotificationThread): NotificationEmail => ({
+  id: thread.id,
+  subject: threadSubject(thread),
+  receivedDateTime: thread.updatedAt,
+  repo: thread.repo,
+  prNumber: thread.prNumber ?? null,
+  issueNumber: thread.issueNumber,
+  host: thread.host,
+  threadKind: THREAD_KINDS[thread.type],
+  githubReason: thread.reason,
+  mailbox: "notifications",
+  unread: thread.unread,
+});
+
+// Every thread in the web inbox (read or not) on each configured host.
+// `folder` narrows it to one repo ("owner/repo").
+export const fetchGitHubEmails = async (
+  folder?: string,
+): Promise<NotificationEmail[]> => {
+  const emails: NotificationEmail[] = [];
+  for (const { host } of getGitHubHosts()) {
+    console.log(`Listing notification threads on ${host}`);
+    const threads = await listNotificationThreads(host, true);
+    emails.push(
+      ...threads
+        .filter((t) => !folder || t.repo.toLowerCase() === folder.toLowerCase())
+        .map(toEmail),
+    );
+  }
+  return emails;
+};
+
+const markThreads = async (
+  emails: UnifiedEmail[],
+  mode: "read" | "done",
+): Promise<BatchResult> => {
+  const result = emptyBatchResult();
+  const results = await runWithConcurrency(emails, 10, async (email) => {
+    const ok = await markThread(hostOf(email), email.id, mode);
+    return {
+      ...emptyBatchResult(),
+      succeeded: ok ? 1 : 0,
+      failed: ok ? 0 : 1,
+      failedIds: ok ? [] : [email.id],
+      errors: ok ? [] : [`Failed to mark thread ${email.id} ${mode}`],
+    };
+  });
+  for (const partial of results) mergeBatchResult(result, partial);
+  return result;
+};
+
+// Done removes the thread from the web inbox, the closest thing to a trash.
+export const batchMarkDone = (
+  emails: UnifiedEmail[],
+): Promise<BatchResult> => markThreads(emails, "done");
+
+export const batchSetReadStatus = (
+  emails: UnifiedEmail[],
+  read: boolean,
+): Promise<BatchResult> => {
+  if (read) return markThreads(emails, "read");
+  return Promise.resolve({
+    ...emptyBatchResult(),
+    failed: emails.length,
+    failedIds: emails.map((e) => e.id),
+    errors: ["GitHub notification threads can't be marked unread"],
+  });
+};
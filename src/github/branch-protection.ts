@@ -0,0 +1,98 @@
+import { perAccount } from "../shared/config.ts";
+import { defaultHost } from "../shared/github-hosts.ts";
+import { cachedGh } from "../shared/pr-cache.ts";
+
+export type ApprovalRules = {
+  requiredApprovals: number;
+  codeOwners: boolean;
+  // Approvals are dismissed when new commits are pushed.
+  dismissStale: boolean;
+};
+
+// Classic protection (REST or GraphQL) and rulesets all reduce to this shape.
+export type RulesJson = {
+  approvals: number | null;
+  codeOwners: boolean | null;
+  dismissStale: boolean | null;
+};
+
+const PROTECTION_JQ = "{approvals: .required_approving_review_count, " +
+  "codeOwners: .require_code_owner_reviews, " +
+  "dismissStale: .dismiss_stale_reviews}";
+
+const RULESETS_JQ = '[.[] | select(.type == "pull_request") | .parameters] | ' +
+  "{approvals: (map(.required_approving_review_count) | max), " +
+  "codeOwners: any(.[]; .require_code_owner_review), " +
+  "dismissStale: any(.[]; .dismiss_stale_reviews_on_push)}";
+
+const fetchRules = async (
+  key: string,
+  path: string,
+  jq: string,
+  host: string,
+): Promise<RulesJson | null> => {
+  const result = await cachedGh(
+    key,
+    ["api", path, "--jq", jq],
+    false,
+    host,
+  );
+  return result.ok ? JSON.parse(result.data) : null;
+};
+
+// One lookup per repo and branch per run; the PR cache keeps the answers
+// across runs. Failed lookups (no protection, no admin access) aren't cached
+// there, so this also keeps them from being retried for every PR.
+const rulesState = perAccount(
+  () => new Map<string, Promise<ApprovalRules | null>>(),
+);
+
+const NO_RULES: RulesJson = {
+  approvals: 0,
+  codeOwners: false,
+  dismissStale: false,
+};
+
+// The stricter of classic branch protection and the rulesets that apply to
+// the branch. Null when neither can be read. The REST protection endpoint
+// needs admin access, so `classic` passes in what a PR's GraphQL view read
+// from baseRef.branchProtectionRule instead (null: the branch has no rule).
+export const getApprovalRules = (
+  repo: string,
+  branch: string,
+  host = defaultHost(),
+  classic?: RulesJson | null,
+): Promise<ApprovalRules | null> => {
+  const key = `${host}/${repo}@${branch}`;
+  const state = rulesState();
+  if (!state.has(key)) {
+    state.set(
+      key,
+      (async () => {
+        const ref = encodeURIComponent(branch);
+        const sources = await Promise.all([
+          classic !== undefined ? classic ?? NO_RULES : fetchRules(
+            `protection:${key}`,
+            `repos/${repo}/branches/${ref}/protection/required_pull_request_reviews`,
+            PROTECTION_JQ,
+            host,
+          ),
+          fetchRules(
+            `rulesets:${key}`,
+            `repos/${repo}/rules/branches/${ref}`,
+            RULESETS_JQ,
+            host,
+          ),
+        ]);
+        const found = sources.filter((s): s is RulesJson => s !== null);
+        if (found.length === 0) return null;
+        return {
+          requiredApprovals: Math.max(0, ...found.map((s) => s.approvals ?? 0)),
+          codeOwners: found.some((s) => s.codeOwners === true),
+          dismissStale: found.some((s) => s.dismissStale === true),
+        };
+      })(),
+    );
+  }
+  return state.get(key)!;
+};
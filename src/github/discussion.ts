@@ -0,0 +1,86 @@
+import { cachedGh } from "../shared/pr-cache.ts";
+import { parseThreadKey, threadKey } from "../shared/github-hosts.ts";
+import { runWithConcurrency } from "./pr.ts";
+
+type DiscussionState = "OPEN" | "ANSWERED" | "CLOSED";
+
+export type DiscussionCheckResult = {
+  repo: string;
+  discussionNumber: number;
+  state: DiscussionState;
+  title?: string;
+  error?: string;
+};
+
+const DISCUSSION_QUERY =
+  `query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    discussion(number: $number) { title closed isAnswered }
+  }
+}`;
+
+// Folds closed/isAnswered into one "state" so the PR cache TTLs apply.
+const DISCUSSION_JQ = ".data.repository.discussion | {title, state: " +
+  '(if .closed then "CLOSED" elif .isAnswered then "ANSWERED" else "OPEN" end)}';
+
+export const checkDiscussion = async (
+  repo: string,
+  discussionNumber: number,
+  force = false,
+  host?: string,
+): Promise<DiscussionCheckResult> => {
+  const [owner, name] = repo.split("/");
+  const result = await cachedGh(
+    `discussion:${threadKey(repo, discussionNumber, host)}`,
+    [
+      "api",
+      "graphql",
+      "-f",
+      `query=${DISCUSSION_QUERY}`,
+      "-f",
+      `owner=${owner}`,
+      "-f",
+      `name=${name}`,
+      "-F",
+      `number=${discussionNumber}`,
+      "--jq",
+      DISCUSSION_JQ,
+    ],
+    force,
+    host,
+  );
+
+  if (!result.ok) {
+    return {
+      repo,
+      discussionNumber,
+      state: "OPEN",
+      error: result.error.trim(),
+    };
+  }
+
+  const info: { title: string; state: DiscussionState } = JSON.parse(
+    result.data,
+  );
+  return { repo, discussionNumber, state: info.state, title: info.title };
+};
+
+export const batchCheckDiscussions = async (
+  discussions: Array<{ repo: string; discussionNumber: number; host?: string }>,
+  force = false,
+): Promise<Map<string, DiscussionCheckResult>> => {
+  const uniqueKeys = [
+    ...new Set(
+      discussions.map((d) => threadKey(d.repo, d.discussionNumber, d.host)),
+    ),
+  ];
+
+  console.log(`Checking ${uniqueKeys.length} unique discussions...`);
+
+  const checkResults = await runWithConcurrency(uniqueKeys, 10, async (key) => {
+    const { host, repo, number } = parseThreadKey(key);
+    return { key, result: await checkDiscussion(repo, number, force, host) };
+  });
+
+  return new Map(checkResults.map(({ key, result }) => [key, result]));
+};
@@ -0,0 +1,101 @@
+import { cachedGhIssueView, ISSUE_FIELDS } from "../shared/pr-cache.ts";
+import { parseThreadKey, threadKey } from "../shared/github-hosts.ts";
+import { getGitHubUser, runWithConcurrency } from "./pr.ts";
+
+type IssueState = "OPEN" | "CLOSED";
+
+type IssueInfo = {
+  state: IssueState;
+  stateReason: string | null;
+  author: { login: string };
+  title: string;
+  body: string;
+  assignees: { login: string }[];
+  labels?: { name: string }[];
+};
+
+export type IssueCheckResult = {
+  repo: string;
+  issueNumber: number;
+  state: IssueState;
+  stateReason: string | null;
+  isAssigned: boolean;
+  isAuthor: boolean;
+  wasMentioned: boolean;
+  author?: string;
+  title?: string;
+  labels?: string[];
+  error?: string;
+};
+
+// "COMPLETED" -> "completed", "NOT_PLANNED" -> "not planned"
+export const describeIssueState = (result: IssueCheckResult): string =>
+  result.state === "CLOSED" && result.stateReason
+    ? `closed as ${result.stateReason.toLowerCase().replace(/_/g, " ")}`
+    : result.state.toLowerCase();
+
+export const checkIssue = async (
+  repo: string,
+  issueNumber: number,
+  force = false,
+  host?: string,
+): Promise<IssueCheckResult> => {
+  const user = await getGitHubUser(host);
+
+  const result = await cachedGhIssueView(
+    repo,
+    issueNumber,
+    ISSUE_FIELDS,
+    force,
+    host,
+  );
+
+  if (!result.ok) {
+    return {
+      repo,
+      issueNumber,
+      state: "CLOSED",
+      stateReason: null,
+      isAssigned: false,
+      isAuthor: false,
+      wasMentioned: false,
+      error: result.error.includes("Could not resolve")
+        ? "Issue not found"
+        : result.error.trim(),
+    };
+  }
+
+  const info: IssueInfo = JSON.parse(result.data);
+  const login = user.toLowerCase();
+
+  return {
+    repo,
+    issueNumber,
+    state: info.state,
+    stateReason: info.stateReason,
+    isAssigned: info.assignees.some((a) => a.login.toLowerCase() === login),
+    isAuthor: info.author.login.toLowerCase() === login,
+    wasMentioned: new RegExp(`@${user}\\b`, "i").test(info.body ?? ""),
+    author: info.author.login,
+    title: info.title,
+    labels: (info.labels ?? []).map((l) => l.name),
+  };
+};
+
+export const batchCheckIssues = async (
+  issues: Array<{ repo: string; issueNumber: number; host?: string }>,
+  force = false,
+): Promise<Map<string, IssueCheckResult>> => {
+  const uniqueKeys = [
+    ...new Set(issues.map((i) => threadKey(i.repo, i.issueNumber, i.host))),
+  ];
+
+  console.log(`Checking ${uniqueKeys.length} unique issues...`);
+
+  const checkResults = await runWithConcurrency(uniqueKeys, 10, async (key) => {
+    const { host, repo, number } = parseThreadKey(key);
+    return { key, result: await checkIssue(repo, number, force, host) };
+  });
+
+  return new Map(checkResults.map(({ key, result }) => [key, result]));
+};
@@ -0,0 +1,148 @@
+import { ghEnv } from "../shared/config.ts";
+import { parseThreadKey, threadKey } from "../shared/github-hosts.ts";
+import { runWithConcurrency } from "./pr.ts";
+
+export type NotificationSync = "read" | "done";
+
+export const parseNotificationSync = (value: string): NotificationSync => {
+  if (value === "read" || value === "done") return value;
+  throw new Error(
+    `Unknown --sync-notifications value "${value}" (expected read or done)`,
+  );
+};
+
+export type NotificationSyncResult = {
+  synced: number;
+  unsubscribed: number;
+  notFound: number;
+  failed: number;
+};
+
+const gh = async (host: string, args: string[]): Promise<string | null> => {
+  const cmd = new Deno.Command("gh", {
+    env: ghEnv(host),
+    args,
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await cmd.output();
+  return code === 0 ? new TextDecoder().decode(stdout) : null;
+};
+
+export type NotificationThread = {
+  id: string;
+  host: string;
+  repo: string;
+  // PullRequest, Issue, Discussion, Release, CheckSuite, ...
+  type: string;
+  title: string;
+  reason: string;
+  unread: boolean;
+  updatedAt: string;
+  prNumber?: number;
+  issueNumber?: number;
+};
+
+// ".../repos/owner/repo/pulls/12" (api.github.com or <host>/api/v3)
+const SUBJECT_URL = /\/repos\/([^/]+\/[^/]+)\/(pulls|issues)\/(\d+)$/;
+
+const THREAD_JQ = ".[] | {id, reason, unread, updated_at, " +
+  "repo: .repository.full_name, type: .subject.type, " +
+  "title: .subject.title, url: .subject.url}";
+
+// "done" and a full listing also need threads already read on the web.
+export const listNotificationThreads = async (
+  host: string,
+  includeRead: boolean,
+): Promise<NotificationThread[]> => {
+  const output = await gh(host, [
+    "api",
+    includeRead ? "notifications?all=true" : "notifications",
+    "--paginate",
+    "--jq",
+    THREAD_JQ,
+  ]);
+  if (output === null) {
+    throw new Error(`Failed to list GitHub notifications on ${host}`);
+  }
+
+  return output.split("\n").filter(Boolean).map((line) => {
+    const raw = JSON.parse(line);
+    const m = raw.url?.match(SUBJECT_URL);
+    const number = m && m[1].toLowerCase() === raw.repo.toLowerCase()
+      ? parseInt(m[3], 10)
+      : undefined;
+    return {
+      id: raw.id,
+      host,
+      repo: raw.repo,
+      type: raw.type,
+      title: raw.title,
+      reason: raw.reason,
+      unread: raw.unread,
+      updatedAt: raw.updated_at,
+      prNumber: m?.[2] === "pulls" ? number : undefined,
+      issueNumber: m?.[2] === "issues" ? number : undefined,
+    };
+  });
+};
+
+export const markThread = async (
+  host: string,
+  id: string,
+  mode: NotificationSync,
+): Promise<boolean> =>
+  await gh(host, [
+    "api",
+    "--method",
+    mode === "done" ? "DELETE" : "PATCH",
+    `notifications/threads/${id}`,
+    "--silent",
+  ]) !== null;
+
+const unsubscribeThread = async (host: string, id: string): Promise<boolean> =>
+  await gh(host, [
+    "api",
+    "--method",
+    "DELETE",
+    `notifications/threads/${id}/subscription`,
+    "--silent",
+  ]) !== null;
+
+// Marks the notification threads for `keys` (threadKeys of cleaned-up PRs and
+// issues) read or done, optionally unsubscribing from them as well.
+export const syncNotificationThreads = async (
+  keys: string[],
+  mode: NotificationSync,
+  unsubscribe: boolean,
+): Promise<NotificationSyncResult> => {
+  const result = { synced: 0, unsubscribed: 0, notFound: 0, failed: 0 };
+  const byHost = new Map<string, string[]>();
+  for (const key of new Set(keys)) {
+    const { host } = parseThreadKey(key);
+    byHost.set(host, [...(byHost.get(host) ?? []), key]);
+  }
+
+  for (const [host, hostKeys] of byHost) {
+    const threads = new Map(
+      (await listNotificationThreads(host, mode === "done")).flatMap((t) => {
+        const number = t.prNumber ?? t.issueNumber;
+        return number ? [[threadKey(t.repo, number, host), t.id]] : [];
+      }),
+    );
+    const ids = hostKeys.flatMap((key) => threads.get(key) ?? []);
+    result.notFound += hostKeys.length - ids.length;
+
+    await runWithConcurrency(ids, 10, async (id) => {
+      if (!await markThread(host, id, mode)) {
+        result.failed++;
+        return;
+      }
+      result.synced++;
+      if (unsubscribe && await unsubscribeThread(host, id)) {
+        result.unsubscribed++;
+      }
+    });
+  }
+  return result;
+};
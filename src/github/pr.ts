@@ -1,15 +1,36 @@
-import { fetchGitHubEmails as fetchGraphEmails } from "../ms-graph/emails.ts";
-import { fetchGitHubEmails as fetchEwsEmails } from "../ews/emails.ts";
-import { fetchGitHubEmails as fetchMailAppEmails } from "../mail-app/emails.ts";
-import type { UnifiedEmail } from "../shared/types.ts";
-import { cachedGhPrView, PR_FIELDS } from "../shared/pr-cache.ts";
+import type { MailBackend } from "../shared/backend.ts";
+import {
+  cachedGhPrView,
+  cachedPrViews,
+  type GhPrViewResult,
+  PR_FIELDS,
+} from "../shared/pr-cache.ts";
+import { getConfig, ghEnv, perAccount } from "../shared/config.ts";
 import {
   cleanupHidden,
   loadHiddenPrs,
   saveHiddenPrs,
 } from "../shared/hidden-prs.ts";
-
-type Backend = "mail-app" | "graph" | "ews";
+import {
+  defaultHost,
+  getGitHubHosts,
+  parseThreadKey,
+  prUrl,
+  threadKey,
+} from "../shared/github-hosts.ts";
+import { extractMentions } from "../shared/mentions.ts";
+import {
+  type ApprovalRules,
+  getApprovalRules,
+  type RulesJson,
+} from "./branch-protection.ts";
+import {
+  formatReviewers,
+  type Review,
+  type ReviewerState,
+  reviewerStates,
+} from "./reviews.ts";
+import type { Involvement } from "../shared/policy.ts";
 
 type PrState = "OPEN" | "CLOSED" | "MERGED";
 
@@ -19,6 +40,8 @@ type ReviewRequest = {
   slug?: string;
 };
 
+type Comment = { author: { login: string } | null; body?: string };
+
 type PrInfo = {
   state: PrState;
   isDraft: boolean;
@@ -27,6 +50,14 @@ type PrInfo = {
   body: string;
   reviewRequests: ReviewRequest[];
   autoMergeRequest: unknown | null;
+  labels?: { name: string }[];
+  mergeable?: string;
+  assignees?: { login: string }[];
+  comments?: Comment[];
+  reviews?: Array<Comment & { state: string }>;
+  // Only the GraphQL lookup fills these; gh pr view has no such fields.
+  reviewComments?: Comment[];
+  pastReviewRequests?: ReviewRequest[];
 };
 
 export type PrCheckResult = {
@@ -36,41 +67,52 @@ export type PrCheckResult = {
   isMerged: boolean;
   isDraft: boolean;
   isInMergeQueue: boolean;
-  wasRequestedReviewer: boolean;
-  wasMentioned: boolean;
+  // How the user is involved in the PR, in INVOLVEMENT_KINDS order.
+  involvement: Involvement[];
   author?: string;
   title?: string;
+  labels?: string[];
+  // MERGEABLE, CONFLICTING or UNKNOWN
+  mergeable?: string;
   error?: string;
 };
 
 type UserTeamsResult = { ok: boolean; teams: Set<string> };
 
-const userTeamsState: { promise?: Promise<UserTeamsResult> } = {};
-
-const getUserTeams = (): Promise<UserTeamsResult> => {
-  if (!userTeamsState.promise) {
-    userTeamsState.promise = (async () => {
-      const cmd = new Deno.Command("gh", {
-        args: [
-          "api",
-          "user/teams",
-          "--paginate",
-          "--jq",
-          '.[] | "\\(.organization.login)/\\(.slug)"',
-        ],
-        stdout: "piped",
-        stderr: "piped",
-      });
-      const { code, stdout } = await cmd.output();
-      if (code !== 0) return { ok: false, teams: new Set<string>() };
-      const text = new TextDecoder().decode(stdout);
-      const teams = new Set(
-        text.split("\n").map((l) => l.trim().toLowerCase()).filter(Boolean),
-      );
-      return { ok: true, teams };
-    })();
+// Keyed by host: each GitHub instance has its own teams.
+const userTeamsState = perAccount(
+  () => new Map<string, Promise<UserTeamsResult>>(),
+);
+
+const getUserTeams = (host = defaultHost()): Promise<UserTeamsResult> => {
+  const state = userTeamsState();
+  if (!state.has(host)) {
+    state.set(
+      host,
+      (async () => {
+        const cmd = new Deno.Command("gh", {
+          env: ghEnv(host),
+          args: [
+            "api",
+            "user/teams",
+            "--paginate",
+            "--jq",
+            '.[] | "\\(.organization.login)/\\(.slug)"',
+          ],
+          stdout: "piped",
+          stderr: "piped",
+        });
+        const { code, stdout } = await cmd.output();
+        if (code !== 0) return { ok: false, teams: new Set<string>() };
+        const text = new TextDecoder().decode(stdout);
+        const teams = new Set(
+          text.split("\n").map((l) => l.trim().toLowerCase()).filter(Boolean),
+        );
+        return { ok: true, teams };
+      })(),
+    );
   }
-  return userTeamsState.promise;
+  return state.get(host)!;
 };
 
 const normalizeTeamSlug = (slug: string, repo: string): string => {
@@ -82,47 +124,45 @@ const normalizeTeamSlug = (slug: string, repo: string): string => {
 const isBlockedByUnreachableTeam = async (
   repo: string,
   reviewRequests: ReviewRequest[],
+  host?: string,
 ): Promise<boolean> => {
   const teamRequests = reviewRequests.filter((r) => r.slug && !r.login);
   if (teamRequests.length === 0) return false;
-  const userTeams = await getUserTeams();
+  const userTeams = await getUserTeams(host);
   if (!userTeams.ok) return false;
   return teamRequests.some(
     (t) => !userTeams.teams.has(normalizeTeamSlug(t.slug!, repo)),
   );
 };
 
-const loadExcludePatterns = async (): Promise<string[]> => {
-  const root = new URL("../../", import.meta.url);
-  const excludePath = new URL(".exclude", root);
-  try {
-    const text = await Deno.readTextFile(excludePath);
-    return text
-      .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0 && !line.startsWith("#"))
-      .map((line) => line.toLowerCase());
-  } catch {
-    return [];
-  }
+// A handle configured for the host wins; github_handle applies to the
+// account's first host only.
+const configuredHandle = (host: string): string | undefined => {
+  const { githubHandle } = getConfig();
+  return getGitHubHosts().find((h) => h.host === host)?.githubHandle ??
+    (host === defaultHost() ? githubHandle.value : undefined);
 };
 
 const createUserCache = () => {
-  let cachedUser: string | null = null;
+  const userState = perAccount(() => new Map<string, string>());
 
-  return async (): Promise<string> => {
-    if (cachedUser) {
-      return cachedUser;
+  return async (host = defaultHost()): Promise<string> => {
+    const state = userState();
+    const cached = state.get(host);
+    if (cached) {
+      return cached;
     }
 
-    const envHandle = Deno.env.get("GITHUB_HANDLE");
-    if (envHandle) {
-      cachedUser = envHandle;
-      console.log(`Using GitHub handle: ${cachedUser}`);
-      return cachedUser;
+    const suffix = host === defaultHost() ? "" : ` on ${host}`;
+    const handle = configuredHandle(host);
+    if (handle) {
+      state.set(host, handle);
+      console.log(`Using GitHub handle: ${handle}${suffix}`);
+      return handle;
     }
 
     const command = new Deno.Command("gh", {
+      env: ghEnv(host),
       args: ["api", "user", "--jq", ".login"],
       stdout: "piped",
       stderr: "piped",
@@ -133,27 +173,106 @@ const createUserCache = () => {
     if (code !== 0) {
       const error = new TextDecoder().decode(stderr);
       throw new Error(
-        `Failed to get current user: ${error}. Set GITHUB_HANDLE env var to specify your username.`,
+        `Failed to get current user${suffix}: ${error}. Set GITHUB_HANDLE or github_handle in your profile to specify your username.`,
       );
     }
 
-    cachedUser = new TextDecoder().decode(stdout).trim();
-    console.log(`Using GitHub handle: ${cachedUser}`);
-    return cachedUser;
+    const login = new TextDecoder().decode(stdout).trim();
+    state.set(host, login);
+    console.log(`Using GitHub handle: ${login}${suffix}`);
+    return login;
   };
 };
 
 export const getGitHubUser = createUserCache();
 
+// Everything that counts as mentioning the user: their handle and "org/team"
+// for each team they belong to.
+export const getMentionHandles = async (
+  host?: string,
+): Promise<Set<string>> => {
+  const user = await getGitHubUser(host);
+  const { teams } = await getUserTeams(host);
+  return new Set([user.toLowerCase(), ...teams]);
+};
+
+export const INVOLVEMENT_KINDS: Involvement[] = [
+  "author",
+  "assigned",
+  "review-requested",
+  "team-review-requested",
+  "reviewed",
+  "mentioned",
+  "team-mentioned",
+];
+
+// Everything on the PR that ties it to the user: authorship, assignment,
+// review requests to them or one of their teams (current or fulfilled), their
+// reviews, and @mentions of them or their teams in the description, comments,
+// reviews and review comments.
+export const prInvolvement = (
+  repo: string,
+  prInfo: PrInfo,
+  user: string,
+  teams: Set<string>,
+): Involvement[] => {
+  const login = user.toLowerCase();
+  const isUser = (who?: { login?: string } | null) =>
+    who?.login?.toLowerCase() === login;
+
+  const texts = [
+    prInfo.body,
+    ...[
+      ...(prInfo.comments ?? []),
+      ...(prInfo.reviews ?? []),
+      ...(prInfo.reviewComments ?? []),
+    ].filter((c) => !isUser(c.author)).map((c) => c.body),
+  ];
+  const mentions = new Set(
+    texts.flatMap((text) => text ? extractMentions(text) : []),
+  );
+
+  const found = new Set<Involvement>();
+  if (isUser(prInfo.author)) found.add("author");
+  if (prInfo.assignees?.some(isUser)) found.add("assigned");
+  const requests = [
+    ...prInfo.reviewRequests,
+    ...(prInfo.pastReviewRequests ?? []),
+  ];
+  if (requests.some(isUser)) found.add("review-requested");
+  if (
+    requests.some((r) =>
+      r.slug && !r.login && teams.has(normalizeTeamSlug(r.slug, repo))
+    )
+  ) {
+    found.add("team-review-requested");
+  }
+  if (prInfo.reviews?.some((r) => isUser(r.author))) found.add("reviewed");
+  if (mentions.has(login)) found.add("mentioned");
+  if ([...mentions].some((m) => teams.has(m))) found.add("team-mentioned");
+
+  return INVOLVEMENT_KINDS.filter((kind) => found.has(kind));
+};
+
 export const checkPr = async (
   repo: string,
   prNumber: number,
   force = false,
+  host?: string,
 ): Promise<PrCheckResult> => {
-  const user = await getGitHubUser();
-
-  const result = await cachedGhPrView(repo, prNumber, PR_FIELDS, force);
+  const user = await getGitHubUser(host);
+  const { teams } = await getUserTeams(host);
+  const result = await cachedGhPrView(repo, prNumber, PR_FIELDS, force, host);
+  return toPrCheckResult(repo, prNumber, result, user, teams);
+};
 
+const toPrCheckResult = (
+  repo: string,
+  prNumber: number,
+  result: GhPrViewResult,
+  user: string,
+  teams: Set<string>,
+): PrCheckResult => {
   if (!result.ok) {
     return {
       repo,
@@ -162,8 +281,7 @@ export const checkPr = async (
       isDraft: false,
       isMerged: false,
       isInMergeQueue: false,
-      wasRequestedReviewer: false,
-      wasMentioned: false,
+      involvement: [],
       error: result.error.includes("Could not resolve")
         ? "PR not found"
         : result.error.trim(),
@@ -172,13 +290,6 @@ export const checkPr = async (
 
   const prInfo: PrInfo = JSON.parse(result.data);
 
-  const wasRequestedReviewer = prInfo.reviewRequests.some(
-    (r) => r.login?.toLowerCase() === user.toLowerCase(),
-  );
-
-  const mentionPattern = new RegExp(`@${user}\\b`, "i");
-  const wasMentioned = mentionPattern.test(prInfo.body ?? "");
-
   return {
     repo,
     prNumber,
@@ -186,14 +297,15 @@ export const checkPr = async (
     isDraft: prInfo.isDraft,
     isMerged: prInfo.state === "MERGED",
     isInMergeQueue: prInfo.autoMergeRequest !== null,
-    wasRequestedReviewer,
-    wasMentioned,
+    involvement: prInvolvement(repo, prInfo, user, teams),
     author: prInfo.author.login,
     title: prInfo.title,
+    labels: (prInfo.labels ?? []).map((l) => l.name),
+    mergeable: prInfo.mergeable,
   };
 };
 
-const runWithConcurrency = async <T, R>(
+export const runWithConcurrency = async <T, R>(
   items: T[],
   concurrency: number,
   fn: (item: T) => Promise<R>,
@@ -218,37 +330,24 @@ const runWithConcurrency = async <T, R>(
   return results;
 };
 
+// Results are keyed by threadKey(repo, prNumber, host).
 export const batchCheckPrs = async (
-  prs: Array<{ repo: string; prNumber: number }>,
+  prs: Array<{ repo: string; prNumber: number; host?: string }>,
   force = false,
 ): Promise<Map<string, PrCheckResult>> => {
   const results = new Map<string, PrCheckResult>();
-  const uniqueKeys = [...new Set(prs.map((p) => `${p.repo}#${p.prNumber}`))];
-  const uniquePrs = uniqueKeys.map((key) => {
-    const [repo, prNumStr] = key.split("#");
-    return { repo, prNumber: parseInt(prNumStr, 10), key };
-  });
-
-  console.log(`Checking ${uniquePrs.length} unique PRs...`);
-
-  const concurrency = 10;
-  let checked = 0;
-
-  const checkResults = await runWithConcurrency(
-    uniquePrs,
-    concurrency,
-    async ({ repo, prNumber, key }) => {
-      const result = await checkPr(repo, prNumber, force);
-      checked++;
-      if (checked % 10 === 0 || checked === uniquePrs.length) {
-        console.log(`Checked ${checked}/${uniquePrs.length} PRs`);
-      }
-      return { key, result };
-    },
+  const views = await cachedPrViews(
+    prs.map((p) => ({ repo: p.repo, number: p.prNumber, host: p.host })),
+    force,
   );
 
-  for (const { key, result } of checkResults) {
-    results.set(key, result);
+  console.log(`Checked ${views.size} unique PRs`);
+
+  for (const [key, view] of views) {
+    const { host, repo, number } = parseThreadKey(key);
+    const user = await getGitHubUser(host);
+    const { teams } = await getUserTeams(host);
+    results.set(key, toPrCheckResult(repo, number, view, user, teams));
   }
 
   return results;
@@ -260,67 +359,74 @@ type PendingPr = {
   title: string;
   url: string;
   author: string;
-  approvalsNeeded: number;
+  // Null when GitHub wants a review and the branch rules don't say how many.
+  approvalsNeeded: number | null;
   approvals: number;
+  // From branch protection and rulesets; unset when they couldn't be read.
+  requiredApprovals?: number;
+  codeOwners: boolean;
   userApproved: boolean;
+  // Humans only, latest effective review each.
+  reviewers: ReviewerState[];
+};
+
+// -1 for changes requested. A branch without review rules has no
+// reviewDecision and needs no approvals. If GitHub still wants a review once
+// the count is met, a code owner hasn't approved yet; without a code owner
+// rule (or any rules we can read) the number is unknown.
+export const approvalsStillNeeded = (
+  reviewDecision: string,
+  approvals: number,
+  rules: ApprovalRules | null,
+): number | null => {
+  if (reviewDecision === "APPROVED") return 0;
+  if (reviewDecision === "CHANGES_REQUESTED") return -1;
+  if (reviewDecision !== "REVIEW_REQUIRED") return 0;
+  if (!rules) return null;
+  const missing = rules.requiredApprovals - approvals;
+  if (missing > 0) return missing;
+  return rules.codeOwners ? 1 : null;
+};
+
+// "(1/2 approvals, code owner review required)"
+const approvalNote = (pr: PendingPr): string => {
+  const notes = [
+    pr.requiredApprovals
+      ? `${pr.approvals}/${pr.requiredApprovals} approvals`
+      : `${pr.approvals} approvals`,
+    ...(pr.codeOwners ? ["code owner review required"] : []),
+  ];
+  return ` (${notes.join(", ")})`;
+};
+
+const logReviewers = (pr: PendingPr): void => {
+  if (pr.reviewers.length > 0) {
+    console.log(`    reviews: ${formatReviewers(pr.reviewers)}`);
+  }
 };
 
 type PendingReviewsOptions = {
   excludeBots?: boolean;
   includeMine?: boolean;
   includeBlocked?: boolean;
-  backend?: Backend;
+  backend?: MailBackend;
   folder?: string;
   org?: string;
   force?: boolean;
+  fullSync?: boolean;
 };
 
-const getBotAuthors = (): string[] => {
-  const envBots = Deno.env.get("LGTM_BOTS");
-  if (envBots) {
-    return envBots.split(",").map((b) => b.trim().toLowerCase());
-  }
-  return ["dependabot"];
-};
-
-const BOT_AUTHORS = getBotAuthors();
-
 const isBotLogin = (login: string): boolean =>
   /\[bot\]$/i.test(login) ||
   /^app\//i.test(login) ||
-  BOT_AUTHORS.some((bot) => login.toLowerCase().includes(bot));
-
-const fetchInboxEmails = async (
-  backend: Backend,
-  folder?: string,
-): Promise<UnifiedEmail[]> => {
-  switch (backend) {
-    case "mail-app": {
-      const mailEmails = await fetchMailAppEmails(folder);
-      return mailEmails.map((e) => ({
-        id: e.id,
-        messageId: e.messageId,
-        subject: e.subject,
-        receivedDateTime: e.receivedDateTime,
-        repo: e.repo,
-        prNumber: e.prNumber,
-        mailbox: e.mailbox,
-        account: e.account,
-      }));
-    }
-    case "graph":
-      return fetchGraphEmails(folder);
-    case "ews":
-      return fetchEwsEmails(folder);
-  }
-};
+  getConfig().bots.value.some((bot) => login.toLowerCase().includes(bot));
 
 export const listPendingReviews = async (
   options: PendingReviewsOptions = {},
 ): Promise<void> => {
   const user = await getGitHubUser();
 
-  const org = options.org ?? Deno.env.get("LGTM_ORG");
+  const org = options.org ?? getConfig().org.value;
 
   console.log(
     `\nFetching PRs${org ? ` for ${org}` : ""}...\n`,
@@ -343,6 +449,7 @@ export const listPendingReviews = async (
   }
 
   const command = new Deno.Command("gh", {
+    env: ghEnv(),
     args: searchArgs,
     stdout: "piped",
     stderr: "piped",
@@ -385,13 +492,15 @@ export const listPendingReviews = async (
     );
   }
 
+  // The search covers the account's first host; inbox emails may name others.
   const reviewRequestedKeys = new Set(
-    results.map((r) => `${r.repository.nameWithOwner}#${r.number}`),
+    results.map((r) => threadKey(r.repository.nameWithOwner, r.number)),
   );
 
   type InboxCandidate = {
     repo: string;
     number: number;
+    host?: string;
     author: string;
     title: string;
   };
@@ -399,19 +508,25 @@ export const listPendingReviews = async (
 
   if (options.backend) {
     console.log("Fetching inbox emails...");
-    const emails = await fetchInboxEmails(options.backend, options.folder);
+    const emails = await options.backend.fetchGitHubEmails(options.folder, {
+      fullSync: options.fullSync,
+    });
     const prEmails = emails.filter((e) => e.repo && e.prNumber);
 
     if (prEmails.length > 0) {
       console.log(`Checking ${prEmails.length} PR emails...`);
       const prResults = await batchCheckPrs(
-        prEmails.map((e) => ({ repo: e.repo!, prNumber: e.prNumber! })),
+        prEmails.map((e) => ({
+          repo: e.repo!,
+          prNumber: e.prNumber!,
+          host: e.host,
+        })),
         options.force ?? false,
       );
 
       const seen = new Set<string>();
       for (const email of prEmails) {
-        const key = `${email.repo}#${email.prNumber}`;
+        const key = threadKey(email.repo!, email.prNumber!, email.host);
         if (reviewRequestedKeys.has(key)) continue;
         if (seen.has(key)) continue;
         seen.add(key);
@@ -426,14 +541,15 @@ export const listPendingReviews = async (
           options.excludeBots &&
           prResult.author &&
           isBotLogin(prResult.author) &&
-          !prResult.wasRequestedReviewer
+          !prResult.involvement.includes("review-requested")
         ) {
           continue;
         }
 
         if (
           !options.includeMine &&
-          prResult.author?.toLowerCase() === user.toLowerCase()
+          prResult.author?.toLowerCase() ===
+            (await getGitHubUser(email.host)).toLowerCase()
         ) {
           continue;
         }
@@ -441,6 +557,7 @@ export const listPendingReviews = async (
         inboxCandidates.push({
           repo: email.repo!,
           number: email.prNumber!,
+          host: email.host,
           author: prResult.author ?? "unknown",
           title: prResult.title ?? "",
         });
@@ -456,6 +573,7 @@ export const listPendingReviews = async (
   type PrToFetch = {
     repo: string;
     number: number;
+    host?: string;
     title: string;
     url: string;
     author: string;
@@ -472,8 +590,9 @@ export const listPendingReviews = async (
     ...inboxCandidates.map((c) => ({
       repo: c.repo,
       number: c.number,
+      host: c.host,
       title: c.title,
-      url: `https://github.com/${c.repo}/pull/${c.number}`,
+      url: prUrl(c.repo, c.number, c.host),
       author: c.author,
     })),
   ];
@@ -491,7 +610,9 @@ export const listPendingReviews = async (
       pr.number,
       PR_FIELDS,
       options.force ?? false,
+      pr.host,
     );
+    const login = (await getGitHubUser(pr.host)).toLowerCase();
 
     processed++;
     const pct = Math.round((processed / allPrsToFetch.length) * 100);
@@ -504,11 +625,15 @@ export const listPendingReviews = async (
     if (!detail.ok) return null;
 
     type ReviewDetail = {
-      reviews: Array<{ author: { login: string }; state: string }>;
+      reviews: Review[];
       reviewDecision: string;
       isDraft: boolean;
       autoMergeRequest: unknown | null;
       reviewRequests: ReviewRequest[];
+      baseRefName?: string;
+      headRefOid?: string;
+      // Only in views fetched through GraphQL.
+      branchProtection?: RulesJson | null;
     };
 
     const reviewData: ReviewDetail = JSON.parse(detail.data);
@@ -517,7 +642,7 @@ export const listPendingReviews = async (
 
     if (options.excludeBots && isBotLogin(pr.author)) {
       const personallyRequested = reviewData.reviewRequests?.some(
-        (r) => r.login?.toLowerCase() === user.toLowerCase(),
+        (r) => r.login?.toLowerCase() === login,
       );
       if (!personallyRequested) return null;
     }
@@ -527,27 +652,39 @@ export const listPendingReviews = async (
     if (
       !options.includeBlocked &&
       reviewData.reviewDecision === "REVIEW_REQUIRED" &&
-      await isBlockedByUnreachableTeam(pr.repo, reviewData.reviewRequests)
+      await isBlockedByUnreachableTeam(
+        pr.repo,
+        reviewData.reviewRequests,
+        pr.host,
+      )
     ) {
       blockedCount++;
       return null;
     }
 
-    const humanApprovals = reviewData.reviews.filter(
-      (r) => r.state === "APPROVED" && !isBotLogin(r.author.login),
+    const rules = reviewData.baseRefName
+      ? await getApprovalRules(
+        pr.repo,
+        reviewData.baseRefName,
+        pr.host,
+        reviewData.branchProtection,
+      )
+      : null;
+    const reviewers = reviewerStates(
+      reviewData.reviews,
+      reviewData.headRefOid,
+      rules?.dismissStale,
+    ).filter((r) => !isBotLogin(r.login));
+    const approvals = reviewers.filter((r) => r.status === "approved").length;
+    const userApproved = reviewers.some(
+      (r) => r.status === "approved" && r.login.toLowerCase() === login,
     );
-    const approvals = humanApprovals.length;
-
-    const userApproved = humanApprovals.some(
-      (r) => r.author.login.toLowerCase() === user.toLowerCase(),
+    const approvalsNeeded = approvalsStillNeeded(
+      reviewData.reviewDecision,
+      approvals,
+      rules,
     );
 
-    const approvalsNeeded = reviewData.reviewDecision === "APPROVED"
-      ? 0
-      : reviewData.reviewDecision === "CHANGES_REQUESTED"
-      ? -1
-      : Math.max(0, 2 - approvals);
-
     return {
       repo: pr.repo,
       number: pr.number,
@@ -556,14 +693,17 @@ export const listPendingReviews = async (
       author: pr.author,
       approvalsNeeded,
       approvals,
+      requiredApprovals: rules?.requiredApprovals,
+      codeOwners: rules?.codeOwners ?? false,
       userApproved,
+      reviewers,
     };
   };
 
   const prResults = await runWithConcurrency(allPrsToFetch, 10, fetchPrDetails);
   const unfilteredPending = prResults.filter((p): p is PendingPr => p !== null);
 
-  const excludePatterns = await loadExcludePatterns();
+  const excludePatterns = getConfig().exclude.value;
   const matchesExclude = (
     pr: { url: string; repo: string; title: string; author: string },
   ) =>
@@ -600,12 +740,16 @@ export const listPendingReviews = async (
 
   const needsOneApproval = pendingPrs.filter((p) => p.approvalsNeeded === 1);
   const changesRequested = pendingPrs.filter((p) => p.approvalsNeeded === -1);
-  const needsMoreApprovals = pendingPrs.filter((p) => p.approvalsNeeded > 1);
+  const needsMoreApprovals = pendingPrs.filter((p) =>
+    (p.approvalsNeeded ?? 0) > 1
+  );
+  const needsReview = pendingPrs.filter((p) => p.approvalsNeeded === null);
   const approved = pendingPrs.filter((p) => p.approvalsNeeded === 0);
 
   const numberedList = [
     ...needsOneApproval,
     ...needsMoreApprovals,
+    ...needsReview,
     ...changesRequested,
     ...approved,
   ];
@@ -617,8 +761,13 @@ export const listPendingReviews = async (
     console.log(`🔥 NEEDS 1 MORE APPROVAL (${needsOneApproval.length}):\n`);
     for (const pr of needsOneApproval) {
       const youApproved = pr.userApproved ? " (you approved)" : "";
-      console.log(`  ${tagOf(pr)} ${pr.repo}#${pr.number}${youApproved}`);
+      console.log(
+        `  ${tagOf(pr)} ${pr.repo}#${pr.number}${
+          approvalNote(pr)
+        }${youApproved}`,
+      );
       console.log(`    ${pr.title}`);
+      logReviewers(pr);
       console.log(`    by ${pr.author} | ${pr.url}`);
       console.log();
     }
@@ -630,11 +779,31 @@ export const listPendingReviews = async (
     for (const pr of needsMoreApprovals) {
       const youApproved = pr.userApproved ? " (you approved)" : "";
       console.log(
-        `  ${
-          tagOf(pr)
-        } ${pr.repo}#${pr.number} (${pr.approvals} approvals)${youApproved}`,
+        `  ${tagOf(pr)} ${pr.repo}#${pr.number}${
+          approvalNote(pr)
+        }${youApproved}`,
       );
       console.log(`    ${pr.title}`);
+      logReviewers(pr);
+      console.log(`    by ${pr.author} | ${pr.url}`);
+      console.log();
+    }
+  }
+
+  if (needsReview.length > 0) {
+    console.log(`${"=".repeat(60)}`);
+    console.log(
+      `❔ NEEDS REVIEW (required approvals unknown) (${needsReview.length}):\n`,
+    );
+    for (const pr of needsReview) {
+      const youApproved = pr.userApproved ? " (you approved)" : "";
+      console.log(
+        `  ${tagOf(pr)} ${pr.repo}#${pr.number}${
+          approvalNote(pr)
+        }${youApproved}`,
+      );
+      console.log(`    ${pr.title}`);
+      logReviewers(pr);
       console.log(`    by ${pr.author} | ${pr.url}`);
       console.log();
     }
@@ -646,6 +815,7 @@ export const listPendingReviews = async (
     for (const pr of changesRequested) {
       console.log(`  ${tagOf(pr)} ${pr.repo}#${pr.number}`);
       console.log(`    ${pr.title}`);
+      logReviewers(pr);
       console.log(`    by ${pr.author} | ${pr.url}`);
       console.log();
     }
@@ -655,8 +825,10 @@ export const listPendingReviews = async (
     console.log(`${"=".repeat(60)}`);
     console.log(`✅ APPROVED (waiting to merge) (${approved.length}):\n`);
     for (const pr of approved) {
-      console.log(`  ${tagOf(pr)} ${pr.repo}#${pr.number}`);
+      const unreviewed = pr.approvals === 0 ? " (no approvals required)" : "";
+      console.log(`  ${tagOf(pr)} ${pr.repo}#${pr.number}${unreviewed}`);
       console.log(`    ${pr.title}`);
+      logReviewers(pr);
       console.log(`    by ${pr.author} | ${pr.url}`);
       console.log();
     }
@@ -711,6 +883,7 @@ export const listPendingReviews = async (
   }
 
   const myPrsCmd = new Deno.Command("gh", {
+    env: ghEnv(),
     args: myPrsArgs,
     stdout: "piped",
     stderr: "piped",
@@ -775,7 +948,7 @@ type BotPrsOptions = {
 
 export const listMyPrs = async (options: MyPrsOptions = {}): Promise<void> => {
   const user = await getGitHubUser();
-  const org = options.org ?? Deno.env.get("LGTM_ORG");
+  const org = options.org ?? getConfig().org.value;
 
   console.log(`\nFetching your open PRs${org ? ` in ${org}` : ""}...\n`);
 
@@ -796,6 +969,7 @@ export const listMyPrs = async (options: MyPrsOptions = {}): Promise<void> => {
   }
 
   const command = new Deno.Command("gh", {
+    env: ghEnv(),
     args,
     stdout: "piped",
     stderr: "piped",
@@ -886,7 +1060,7 @@ export const listBotPrsNeedingReview = async (
   options: BotPrsOptions = {},
 ): Promise<void> => {
   const user = await getGitHubUser();
-  const org = options.org ?? Deno.env.get("LGTM_ORG");
+  const org = options.org ?? getConfig().org.value;
 
   console.log(
     `\nFetching PRs you've reviewed${org ? ` in ${org}` : ""}...\n`,
@@ -906,6 +1080,7 @@ export const listBotPrsNeedingReview = async (
   ];
 
   const command = new Deno.Command("gh", {
+    env: ghEnv(),
     args,
     stdout: "piped",
     stderr: "piped",
@@ -940,7 +1115,9 @@ export const listBotPrsNeedingReview = async (
   const botPrs = results.filter(
     (pr) =>
       pr.author.type === "Bot" ||
-      BOT_AUTHORS.some((bot) => pr.author.login.toLowerCase().includes(bot)),
+      getConfig().bots.value.some((bot) =>
+        pr.author.login.toLowerCase().includes(bot)
+      ),
   );
 
   if (botPrs.length === 0) {
@@ -976,18 +1153,29 @@ export const listBotPrsNeedingReview = async (
     if (!detail.ok) return null;
 
     type ReviewDetail = {
-      reviews: Array<{ author: { login: string }; state: string }>;
+      reviews: Review[];
+      baseRefName?: string;
+      headRefOid?: string;
+      branchProtection?: RulesJson | null;
     };
 
     const reviewData: ReviewDetail = JSON.parse(detail.data);
 
-    const approvals = reviewData.reviews.filter(
-      (r) => r.state === "APPROVED" && !isBotLogin(r.author.login),
-    );
-    const userApproved = approvals.some(
-      (r) => r.author.login.toLowerCase() === user.toLowerCase(),
-    );
-    const onlyUserApproved = userApproved && approvals.length === 1;
+    const rules = reviewData.baseRefName
+      ? await getApprovalRules(
+        pr.repository.nameWithOwner,
+        reviewData.baseRefName,
+        undefined,
+        reviewData.branchProtection,
+      )
+      : null;
+    const approvers = reviewerStates(
+      reviewData.reviews,
+      reviewData.headRefOid,
+      rules?.dismissStale,
+    ).filter((r) => r.status === "approved" && !isBotLogin(r.login));
+    const onlyUserApproved = approvers.length === 1 &&
+      approvers[0].login.toLowerCase() === user.toLowerCase();
 
     return {
       repo: pr.repository.nameWithOwner,
@@ -0,0 +1,86 @@
+import { assertEquals } from "@std/assert";
+import { approvalsStillNeeded, prInvolvement } from "./pr.ts";
+
+type PrInfo = Parameters<typeof prInvolvement>[1];
+
+const pr = (overrides: Partial<PrInfo> = {}): PrInfo => ({
+  state: "OPEN",
+  isDraft: false,
+  author: { login: "bob" },
+  title: "Fix the thing",
+  body: "",
+  reviewRequests: [],
+  autoMergeRequest: null,
+  ...overrides,
+});
+
+const teams = new Set(["acme/core"]);
+
+const involvement = (info: PrInfo) =>
+  prInvolvement("acme/widgets", info, "Alice", teams);
+
+Deno.test("requests to one of the user's teams count, now or earlier", () => {
+  // gh prints the bare team slug; GraphQL has the org in front.
+  assertEquals(involvement(pr({ reviewRequests: [{ slug: "core" }] })), [
+    "team-review-requested",
+  ]);
+  assertEquals(
+    involvement(pr({ pastReviewRequests: [{ slug: "acme/Core" }] })),
+    ["team-review-requested"],
+  );
+});
+
+Deno.test("requests to other teams don't involve the user", () => {
+  assertEquals(
+    involvement(pr({ reviewRequests: [{ slug: "acme/docs" }] })),
+    [],
+  );
+  assertEquals(
+    involvement(pr({ reviewRequests: [{ slug: "other/core" }] })),
+    [],
+  );
+});
+
+Deno.test("involvement lists every kind once, in order", () => {
+  assertEquals(
+    involvement(pr({
+      author: { login: "alice" },
+      body: "cc @acme/core",
+      assignees: [{ login: "ALICE" }],
+      reviewRequests: [{ login: "alice" }, { slug: "core" }],
+      reviews: [{ author: { login: "alice" }, state: "APPROVED" }],
+      comments: [
+        { author: { login: "carol" }, body: "@alice thoughts?" },
+        { author: { login: "alice" }, body: "asking @bob" },
+      ],
+    })),
+    [
+      "author",
+      "assigned",
+      "review-requested",
+      "team-review-requested",
+      "reviewed",
+      "mentioned",
+      "team-mentioned",
+    ],
+  );
+});
+
+const rules = { requiredApprovals: 2, codeOwners: false, dismissStale: false };
+
+Deno.test("approvals still needed follow reviewDecision, then the rules", () => {
+  assertEquals(approvalsStillNeeded("APPROVED", 0, null), 0);
+  assertEquals(approvalsStillNeeded("CHANGES_REQUESTED", 2, rules), -1);
+  // No reviewDecision means the branch requires no reviews.
+  assertEquals(approvalsStillNeeded("", 0, null), 0);
+  assertEquals(approvalsStillNeeded("REVIEW_REQUIRED", 1, rules), 1);
+});
+
+Deno.test("a met count leaves a code owner or an unknown requirement", () => {
+  assertEquals(
+    approvalsStillNeeded("REVIEW_REQUIRED", 2, { ...rules, codeOwners: true }),
+    1,
+  );
+  assertEquals(approvalsStillNeeded("REVIEW_REQUIRED", 2, rules), null);
+  assertEquals(approvalsStillNeeded("REVIEW_REQUIRED", 1, null), null);
+});
@@ -0,0 +1,61 @@
+export type Review = {
+  author: { login: string };
+  // APPROVED, CHANGES_REQUESTED, COMMENTED, DISMISSED or PENDING
+  state: string;
+  commit?: { oid: string } | null;
+};
+
+export type ReviewerStatus =
+  | "approved"
+  | "changes-requested"
+  | "commented"
+  | "dismissed"
+  | "stale";
+
+export type ReviewerState = { login: string; status: ReviewerStatus };
+
+const STATUSES: Record<string, ReviewerStatus> = {
+  APPROVED: "approved",
+  CHANGES_REQUESTED: "changes-requested",
+  DISMISSED: "dismissed",
+};
+
+// Each reviewer's latest effective review, in order of first review. Reviews
+// come oldest first from both gh and GraphQL. Like on GitHub, a comment doesn't
+// replace an earlier approval or change request. With `dismissStale` (the
+// branch dismisses approvals on push), approvals of an older commit than
+// `headOid` are stale even if GitHub hasn't dismissed them yet.
+export const reviewerStates = (
+  reviews: Review[],
+  headOid?: string,
+  dismissStale = false,
+): ReviewerState[] => {
+  const states = new Map<string, ReviewerState>();
+  for (const review of reviews) {
+    const key = review.author.login.toLowerCase();
+    const status = STATUSES[review.state] ??
+      (review.state === "COMMENTED" ? "commented" : undefined);
+    if (!status) continue;
+    const current = states.get(key);
+    if (status === "commented" && current) continue;
+    const stale = status === "approved" && dismissStale && headOid &&
+      review.commit && review.commit.oid !== headOid;
+    states.set(key, {
+      login: review.author.login,
+      status: stale ? "stale" : status,
+    });
+  }
+  return [...states.values()];
+};
+
+const LABELS: Record<ReviewerStatus, string> = {
+  "approved": "approved",
+  "changes-requested": "changes requested",
+  "commented": "commented",
+  "dismissed": "dismissed",
+  "stale": "approval stale",
+};
+
+// "carol approved, dave changes requested"
+export const formatReviewers = (states: ReviewerState[]): string =>
+  states.map((s) => `${s.login} ${LABELS[s.status]}`).join(", ");
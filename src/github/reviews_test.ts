@@ -0,0 +1,69 @@
+import { assertEquals } from "@std/assert";
+import { formatReviewers, type Review, reviewerStates } from "./reviews.ts";
+
+const review = (login: string, state: string, oid = "head"): Review => ({
+  author: { login },
+  state,
+  commit: { oid },
+});
+
+Deno.test("each reviewer's latest review wins, in order of first review", () => {
+  const states = reviewerStates([
+    review("carol", "CHANGES_REQUESTED"),
+    review("dave", "APPROVED"),
+    review("Carol", "APPROVED"),
+    review("dave", "DISMISSED"),
+    review("erin", "PENDING"),
+  ]);
+
+  assertEquals(states, [
+    { login: "Carol", status: "approved" },
+    { login: "dave", status: "dismissed" },
+  ]);
+  assertEquals(formatReviewers(states), "Carol approved, dave dismissed");
+});
+
+Deno.test("a comment doesn't replace an approval or change request", () => {
+  assertEquals(
+    reviewerStates([
+      review("carol", "APPROVED"),
+      review("carol", "COMMENTED"),
+      review("dave", "COMMENTED"),
+      review("erin", "CHANGES_REQUESTED"),
+      review("erin", "COMMENTED"),
+    ]),
+    [
+      { login: "carol", status: "approved" },
+      { login: "dave", status: "commented" },
+      { login: "erin", status: "changes-requested" },
+    ],
+  );
+});
+
+Deno.test("approvals of an older commit are stale only when dismissed on push", () => {
+  const reviews = [
+    review("carol", "APPROVED", "old"),
+    review("dave", "APPROVED", "head"),
+    review("erin", "CHANGES_REQUESTED", "old"),
+  ];
+
+  const states = reviewerStates(reviews, "head", true);
+  assertEquals(states.map((s) => s.status), [
+    "stale",
+    "approved",
+    "changes-requested",
+  ]);
+  assertEquals(
+    formatReviewers(states),
+    "carol approval stale, dave approved, erin changes requested",
+  );
+  assertEquals(
+    reviewerStates(reviews, "head").map((s) => s.status),
+    ["approved", "approved", "changes-requested"],
+  );
+  // Without a head commit there's nothing to compare against.
+  assertEquals(
+    reviewerStates(reviews, undefined, true).map((s) => s.status),
+    ["approved", "approved", "changes-requested"],
+  );
+});
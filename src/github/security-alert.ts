@@ -0,0 +1,61 @@
+import { cachedGh } from "../shared/pr-cache.ts";
+import { defaultHost } from "../shared/github-hosts.ts";
+import type { SecurityAlertRef } from "../shared/types.ts";
+import { runWithConcurrency } from "./pr.ts";
+
+const ALERT_ENDPOINTS: Record<SecurityAlertRef["tool"], string> = {
+  dependabot: "dependabot/alerts",
+  "code-scanning": "code-scanning/alerts",
+  "secret-scanning": "secret-scanning/alerts",
+};
+
+export type AlertCheckResult = {
+  ref: SecurityAlertRef;
+  // OPEN, FIXED, DISMISSED, AUTO_DISMISSED or RESOLVED (secret scanning)
+  state: string;
+  error?: string;
+};
+
+export const alertKey = (ref: SecurityAlertRef): string =>
+  `${ref.host ?? defaultHost()}/${ref.repo}/${ref.tool}/${ref.number}`;
+
+export const isAlertResolved = (result: AlertCheckResult): boolean =>
+  !result.error && result.state !== "OPEN";
+
+export const checkAlert = async (
+  ref: SecurityAlertRef,
+  force = false,
+): Promise<AlertCheckResult> => {
+  const result = await cachedGh(
+    `alert:${alertKey(ref)}`,
+    [
+      "api",
+      `repos/${ref.repo}/${ALERT_ENDPOINTS[ref.tool]}/${ref.number}`,
+      "--jq",
+      "{state: (.state | ascii_upcase)}",
+    ],
+    force,
+    ref.host,
+  );
+
+  if (!result.ok) {
+    return { ref, state: "OPEN", error: result.error.trim() };
+  }
+  return { ref, state: JSON.parse(result.data).state };
+};
+
+export const batchCheckAlerts = async (
+  refs: SecurityAlertRef[],
+  force = false,
+): Promise<Map<string, AlertCheckResult>> => {
+  const unique = [...new Map(refs.map((r) => [alertKey(r), r])).values()];
+
+  console.log(`Checking ${unique.length} unique security alerts...`);
+
+  const checkResults = await runWithConcurrency(unique, 10, async (ref) => ({
+    key: alertKey(ref),
+    result: await checkAlert(ref, force),
+  }));
+
+  return new Map(checkResults.map(({ key, result }) => [key, result]));
+};
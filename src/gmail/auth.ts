@@ -0,0 +1,40 @@
+import {
+  clearStoredToken,
+  getAccessToken as getToken,
+  type OAuthConfig,
+} from "../shared/oauth.ts";
+import { env } from "../shared/config.ts";
+
+const GOOGLE_AUTHORIZE_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+const SCOPES = ["https://www.googleapis.com/auth/gmail.modify"];
+
+const TOKEN_FILE = "gmail-tokens.json";
+
+const getConfig = (): OAuthConfig => {
+  const clientId = env("GMAIL_CLIENT_ID");
+  if (!clientId) {
+    throw new Error(
+      "Gmail backend requires GMAIL_CLIENT_ID (a Google OAuth desktop client).",
+    );
+  }
+  return {
+    clientId,
+    clientName: "gmail",
+    clientSecret: env("GMAIL_CLIENT_SECRET"),
+    scopes: SCOPES,
+    redirectUri: "http://localhost:8400",
+    tokenFileName: TOKEN_FILE,
+    useNativeRedirect: false,
+    authorizeUrl: env("GMAIL_AUTH_URL") ?? GOOGLE_AUTHORIZE_URL,
+    tokenUrl: env("GMAIL_TOKEN_URL") ?? GOOGLE_TOKEN_URL,
+    // Google only issues refresh tokens when offline access is requested
+    extraAuthParams: { access_type: "offline", prompt: "consent" },
+  };
+};
+
+export const getGmailAccessToken = (): Promise<string> => getToken(getConfig());
+
+export const clearGmailToken = (): Promise<void> =>
+  clearStoredToken(TOKEN_FILE);
@@ -0,0 +1,34 @@
+import type { MailBackend } from "../shared/backend.ts";
+import {
+  batchArchive,
+  batchCategorize,
+  batchMoveToLabel,
+  batchMoveToTrash,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+} from "./emails.ts";
+
+export const gmailBackend: MailBackend = {
+  name: "gmail",
+  displayName: "Gmail API",
+  capabilities: new Set([
+    "trash",
+    "archive",
+    "move",
+    "mark-read",
+    "categorize",
+  ]),
+  fetchGitHubEmails,
+  moveToTrash: (emails) => batchMoveToTrash(emails.map((e) => e.id)),
+  archive: (emails) =>
+    batchArchive(emails.map((e) => ({ id: e.id, mailbox: e.mailbox! }))),
+  moveToFolder: (emails, folder) =>
+    batchMoveToLabel(
+      emails.map((e) => ({ id: e.id, mailbox: e.mailbox! })),
+      folder,
+    ),
+  setReadStatus: (emails, read) =>
+    batchSetReadStatus(emails.map((e) => e.id), read),
+  categorize: (emails, category) =>
+    batchCategorize(emails.map((e) => e.id), category),
+};
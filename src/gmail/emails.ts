@@ -0,0 +1,367 @@
+import { getGmailAccessToken } from "./auth.ts";
+import { parsePrFromSubject } from "../shared/parse-subject.ts";
+import { applyGitHubHeaders } from "../shared/github-headers.ts";
+import { githubSenders } from "../shared/github-hosts.ts";
+import { bodyDetails } from "../shared/email-body.ts";
+import { stripHtml } from "../shared/mail-headers.ts";
+import {
+  type BatchResult,
+  emptyBatchResult,
+  mergeBatchResult,
+} from "../shared/backend.ts";
+import type { GmailEmail } from "../shared/types.ts";
+import { env } from "../shared/config.ts";
+
+export type { GmailEmail as GitHubEmail };
+
+const getApiBase = (): string =>
+  env("GMAIL_API_BASE") ?? "https://gmail.googleapis.com/gmail/v1";
+
+const MESSAGE_CONCURRENCY = 10;
+const MODIFY_BATCH_SIZE = 1000;
+
+type Label = {
+  id: string;
+  name: string;
+  type: "system" | "user";
+};
+
+type MessageRef = {
+  id: string;
+  threadId: string;
+};
+
+type MessageList = {
+  messages?: MessageRef[];
+  nextPageToken?: string;
+};
+
+type MessagePart = {
+  mimeType?: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: { data?: string };
+  parts?: MessagePart[];
+};
+
+type Message = {
+  id: string;
+  internalDate: string;
+  labelIds?: string[];
+  payload?: MessagePart;
+};
+
+const gmailFetch = async <T>(
+  endpoint: string,
+  options: RequestInit = {},
+): Promise<T> => {
+  const token = await getGmailAccessToken();
+  const response = await fetch(`${getApiBase()}${endpoint}`, {
+    ...options,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Gmail API error: ${response.status} ${error}`);
+  }
+
+  const text = await response.text();
+  return (text ? JSON.parse(text) : {}) as T;
+};
+
+const listLabels = async (): Promise<Label[]> => {
+  const response = await gmailFetch<{ labels?: Label[] }>("/users/me/labels");
+  return response.labels ?? [];
+};
+
+const findGitHubLabels = (
+  labels: Label[],
+): Array<Label & { displayName: string }> => {
+  const children = labels
+    .filter((l) => {
+      const lower = l.name.toLowerCase();
+      return lower.startsWith("github/") && !lower.slice(7).includes("/");
+    })
+    .map((l) => ({ ...l, displayName: l.name.slice(7) }));
+
+  if (children.length > 0) return children;
+
+  const parent = labels.find((l) => l.name.toLowerCase() === "github");
+  if (parent) return [{ ...parent, displayName: "github" }];
+
+  console.log("No 'github' label found in mailbox.");
+  return [];
+};
+
+const listMessageIds = async (labelId: string): Promise<string[]> => {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      labelIds: labelId,
+      q: githubSenders().map((s) => `from:${s}`).join(" OR "),
+      maxResults: "500",
+    });
+    if (pageToken) params.set("pageToken", pageToken);
+
+    const response = await gmailFetch<MessageList>(
+      `/users/me/messages?${params}`,
+    );
+    ids.push(...(response.messages ?? []).map((m) => m.id));
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return ids;
+};
+
+const getHeader = (message: Message, name: string): string =>
+  message.payload?.headers?.find(
+    (h) => h.name.toLowerCase() === name.toLowerCase(),
+  )?.value ?? "";
+
+const decodeBase64Url = (data: string): string =>
+  new TextDecoder().decode(
+    Uint8Array.from(
+      atob(data.replace(/-/g, "+").replace(/_/g, "/")),
+      (c) => c.charCodeAt(0),
+    ),
+  );
+
+const findPart = (
+  part: MessagePart | undefined,
+  mimeType: string,
+): MessagePart | undefined => {
+  if (!part) return undefined;
+  if (part.mimeType === mimeType && part.body?.data) return part;
+  for (const child of part.parts ?? []) {
+    const found = findPart(child, mimeType);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const getTextBody = (message: Message): string => {
+  const plain = findPart(message.payload, "text/plain");
+  if (plain) return decodeBase64Url(plain.body!.data!);
+  const html = findPart(message.payload, "text/html");
+  return html ? stripHtml(decodeBase64Url(html.body!.data!)) : "";
+};
+
+const fetchMessage = (id: string): Promise<Message> =>
+  gmailFetch<Message>(`/users/me/messages/${id}?format=full`);
+
+const findEmailsWithLabel = async (
+  label: Label,
+): Promise<GmailEmail[]> => {
+  const ids = await listMessageIds(label.id);
+  const emails: GmailEmail[] = [];
+
+  for (let i = 0; i < ids.length; i += MESSAGE_CONCURRENCY) {
+    const chunk = ids.slice(i, i + MESSAGE_CONCURRENCY);
+    const messages = await Promise.all(chunk.map(fetchMessage));
+
+    for (const msg of messages) {
+      const subject = getHeader(msg, "Subject");
+      const { repo, prNumber } = parsePrFromSubject(subject);
+      emails.push(applyGitHubHeaders({
+        id: msg.id,
+        messageId: getHeader(msg, "Message-ID") || undefined,
+        subject,
+        receivedDateTime: new Date(parseInt(msg.internalDate, 10))
+          .toISOString(),
+        repo,
+        prNumber,
+        mailbox: label.name,
+        ...bodyDetails(getTextBody(msg)),
+      }, {
+        from: getHeader(msg, "From"),
+        reason: getHeader(msg, "X-GitHub-Reason"),
+        listId: getHeader(msg, "List-ID"),
+        messageId: getHeader(msg, "Message-ID"),
+      }));
+    }
+  }
+
+  return emails;
+};
+
+export const fetchGitHubEmails = async (
+  folderName?: string,
+): Promise<GmailEmail[]> => {
+  const allEmails: GmailEmail[] = [];
+  const scanInbox = folderName === undefined ||
+    folderName?.toLowerCase() === "inbox";
+  const scanGithub = folderName === undefined ||
+    (folderName !== undefined && folderName.toLowerCase() !== "inbox");
+
+  if (scanGithub) {
+    const labels = findGitHubLabels(await listLabels());
+    const targetLabels = folderName
+      ? labels.filter((l) =>
+        l.displayName.toLowerCase() === folderName.toLowerCase()
+      )
+      : labels;
+
+    if (targetLabels.length === 0 && folderName) {
+      console.log(`No label named '${folderName}' found under github/`);
+    }
+
+    for (const label of targetLabels) {
+      console.log(`Scanning label: github/${label.displayName}`);
+      allEmails.push(...await findEmailsWithLabel(label));
+    }
+  }
+
+  if (scanInbox) {
+    console.log("Scanning label: INBOX");
+    allEmails.push(
+      ...await findEmailsWithLabel({
+        id: "INBOX",
+        name: "INBOX",
+        type: "system",
+      }),
+    );
+  }
+
+  return allEmails;
+};
+
+const batchModify = async (
+  ids: string[],
+  change: { addLabelIds?: string[]; removeLabelIds?: string[] },
+  describe: (processed: number, total: number) => string,
+): Promise<BatchResult> => {
+  const result = emptyBatchResult();
+
+  for (let i = 0; i < ids.length; i += MODIFY_BATCH_SIZE) {
+    const batch = ids.slice(i, i + MODIFY_BATCH_SIZE);
+    try {
+      await gmailFetch("/users/me/messages/batchModify", {
+        method: "POST",
+        body: JSON.stringify({ ids: batch, ...change }),
+      });
+      result.succeeded += batch.length;
+    } catch (e) {
+      result.failed += batch.length;
+      (result.failedIds ??= []).push(...batch);
+      result.errors.push(String(e));
+    }
+    console.log(describe(result.succeeded, ids.length));
+  }
+
+  if (result.errors.length > 0) {
+    console.log(`\nWarnings: ${result.errors.length} issues occurred`);
+  }
+
+  return result;
+};
+
+export const batchMoveToTrash = (ids: string[]): Promise<BatchResult> =>
+  batchModify(
+    ids,
+    { addLabelIds: ["TRASH"], removeLabelIds: ["INBOX"] },
+    (processed, total) => `Moved ${processed}/${total} emails to trash`,
+  );
+
+export const batchSetReadStatus = (
+  ids: string[],
+  read: boolean,
+): Promise<BatchResult> =>
+  batchModify(
+    ids,
+    read ? { removeLabelIds: ["UNREAD"] } : { addLabelIds: ["UNREAD"] },
+    (processed, total) =>
+      `Marked ${processed}/${total} emails as ${read ? "read" : "unread"}`,
+  );
+
+const resolveLabelId = (labels: Label[], name: string): string => {
+  const match = labels.find((l) => l.name.toLowerCase() === name.toLowerCase());
+  if (!match) {
+    throw new Error(`Gmail label '${name}' not found`);
+  }
+  return match.id;
+};
+
+type LabeledItem = { id: string; mailbox: string };
+
+// Runs one batchModify per source label, since the label to remove differs.
+const modifyPerSource = async (
+  items: LabeledItem[],
+  toChange: (sourceId: string) => {
+    addLabelIds?: string[];
+    removeLabelIds?: string[];
+  },
+  describe: (processed: number, total: number) => string,
+): Promise<BatchResult> => {
+  const labels = await listLabels();
+  const bySource = new Map<string, string[]>();
+  for (const item of items) {
+    const existing = bySource.get(item.mailbox) ?? [];
+    existing.push(item.id);
+    bySource.set(item.mailbox, existing);
+  }
+
+  const result = emptyBatchResult();
+  for (const [source, ids] of bySource.entries()) {
+    mergeBatchResult(
+      result,
+      await batchModify(
+        ids,
+        toChange(resolveLabelId(labels, source)),
+        describe,
+      ),
+    );
+  }
+  return result;
+};
+
+export const batchMoveToLabel = async (
+  items: LabeledItem[],
+  label: string,
+): Promise<BatchResult> => {
+  const targetId = resolveLabelId(await listLabels(), label);
+  return modifyPerSource(
+    items,
+    (sourceId) => ({ addLabelIds: [targetId], removeLabelIds: [sourceId] }),
+    (processed, total) => `Moved ${processed}/${total} emails to ${label}`,
+  );
+};
+
+// Archiving in Gmail means dropping INBOX and the github/* label it was in.
+export const batchArchive = (items: LabeledItem[]): Promise<BatchResult> =>
+  modifyPerSource(
+    items,
+    (sourceId) => ({ removeLabelIds: [...new Set(["INBOX", sourceId])] }),
+    (processed, total) => `Archived ${processed}/${total} emails`,
+  );
+
+const ensureLabel = async (name: string): Promise<string> => {
+  const existing = (await listLabels()).find((l) =>
+    l.name.toLowerCase() === name.toLowerCase()
+  );
+  if (existing) return existing.id;
+
+  const created = await gmailFetch<Label>("/users/me/labels", {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+  return created.id;
+};
+
+export const batchCategorize = async (
+  ids: string[],
+  category: string,
+): Promise<BatchResult> => {
+  const labelId = await ensureLabel(category);
+  return batchModify(
+    ids,
+    { addLabelIds: [labelId] },
+    (processed, total) =>
+      `Categorized ${processed}/${total} emails as '${category}'`,
+  );
+};
@@ -0,0 +1,163 @@
+import { assertEquals } from "@std/assert";
+import { saveToken } from "../shared/oauth.ts";
+import { batchArchive, batchMoveToTrash, fetchGitHubEmails } from "./emails.ts";
+
+type Call = { method: string; url: URL; body: string };
+
+const API = "http://gmail.test/gmail/v1";
+const TOKEN_URL = "http://gmail.test/token";
+
+const base64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, "-").replace(/\//g, "_");
+
+// Points the backend at a stubbed fetch with an expired stored token, so the
+// first request refreshes it against GMAIL_TOKEN_URL.
+const withGmail = async (
+  route: (call: Call) => unknown,
+  fn: (calls: Call[]) => Promise<void>,
+) => {
+  const vars: Record<string, string> = {
+    HOME: await Deno.makeTempDir(),
+    GMAIL_CLIENT_ID: "client",
+    GMAIL_API_BASE: API,
+    GMAIL_TOKEN_URL: TOKEN_URL,
+  };
+  const saved = Object.keys(vars).map((name) => [name, Deno.env.get(name)]);
+  for (const [name, value] of Object.entries(vars)) Deno.env.set(name, value);
+  await saveToken("gmail-tokens.json", {
+    accessToken: "old",
+    refreshToken: "refresh",
+    expiresAt: 0,
+  });
+
+  const originalFetch = globalThis.fetch;
+  const calls: Call[] = [];
+  globalThis.fetch = async (input, init) => {
+    const call = {
+      method: init?.method ?? "GET",
+      url: new URL(String(input)),
+      body: String(init?.body ?? ""),
+    };
+    calls.push(call);
+    if (call.url.href === TOKEN_URL) {
+      return Response.json({
+        access_token: "fresh",
+        expires_in: 3600,
+        token_type: "Bearer",
+      });
+    }
+    assertEquals(
+      new Headers(init?.headers).get("Authorization"),
+      "Bearer fresh",
+    );
+    const reply = await route(call);
+    return reply instanceof Response ? reply : Response.json(reply ?? {});
+  };
+  const { log } = console;
+  console.log = () => {};
+
+  try {
+    await fn(calls);
+  } finally {
+    console.log = log;
+    globalThis.fetch = originalFetch;
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name!);
+      else Deno.env.set(name!, value);
+    }
+    await Deno.remove(vars.HOME, { recursive: true });
+  }
+};
+
+const LABELS = {
+  labels: [
+    { id: "INBOX", name: "INBOX", type: "system" },
+    { id: "Label_ci", name: "github/ci", type: "user" },
+    { id: "Label_deps", name: "github/deps", type: "user" },
+  ],
+};
+
+Deno.test("a --folder scan lists only that label and decodes the message", async () => {
+  const message = {
+    id: "m1",
+    internalDate: String(Date.UTC(2024, 4, 1, 10)),
+    payload: {
+      mimeType: "multipart/alternative",
+      headers: [
+        { name: "From", value: "GitHub <notifications@github.com>" },
+        { name: "Subject", value: "Re: [acme/widgets] Fix it (PR #7)" },
+        { name: "X-GitHub-Reason", value: "review_requested" },
+      ],
+      parts: [
+        { mimeType: "text/html", body: { data: base64Url("<p>html</p>") } },
+        {
+          mimeType: "text/plain",
+          body: { data: base64Url("@alice could you look? ✓") },
+        },
+      ],
+    },
+  };
+
+  await withGmail((call) => {
+    switch (call.url.pathname) {
+      case "/gmail/v1/users/me/labels":
+        return LABELS;
+      case "/gmail/v1/users/me/messages":
+        return { messages: [{ id: "m1", threadId: "t1" }] };
+      case "/gmail/v1/users/me/messages/m1":
+        return message;
+    }
+    return new Response("not found", { status: 404 });
+  }, async (calls) => {
+    const emails = await fetchGitHubEmails("ci");
+
+    assertEquals(
+      new URLSearchParams(calls[0].body).get("grant_type"),
+      "refresh_token",
+    );
+    const list = calls.find((c) => c.url.pathname.endsWith("/messages"))!;
+    assertEquals(list.url.searchParams.get("labelIds"), "Label_ci");
+    assertEquals(emails.length, 1);
+    assertEquals(emails[0].mailbox, "github/ci");
+    assertEquals([emails[0].repo, emails[0].prNumber], ["acme/widgets", 7]);
+    assertEquals(emails[0].githubReason, "review_requested");
+    assertEquals(emails[0].mentions, ["alice"]);
+    assertEquals(emails[0].receivedDateTime, "2024-05-01T10:00:00.000Z");
+  });
+});
+
+Deno.test("archiving removes INBOX and each email's own label", async () => {
+  await withGmail(
+    (call) => call.url.pathname.endsWith("/labels") ? LABELS : {},
+    async (calls) => {
+      const result = await batchArchive([
+        { id: "a", mailbox: "INBOX" },
+        { id: "b", mailbox: "github/ci" },
+        { id: "c", mailbox: "github/ci" },
+      ]);
+
+      assertEquals(result.succeeded, 3);
+      assertEquals(
+        calls.filter((c) => c.method === "POST" && c.url.href !== TOKEN_URL)
+          .map((c) => JSON.parse(c.body)),
+        [
+          { ids: ["a"], removeLabelIds: ["INBOX"] },
+          { ids: ["b", "c"], removeLabelIds: ["INBOX", "Label_ci"] },
+        ],
+      );
+    },
+  );
+});
+
+Deno.test("a failed batchModify reports its IDs", async () => {
+  await withGmail(
+    () => new Response("backend error", { status: 500 }),
+    async () => {
+      const result = await batchMoveToTrash(["a", "b"]);
+
+      assertEquals([result.succeeded, result.failed], [0, 2]);
+      assertEquals(result.failedIds, ["a", "b"]);
+    },
+  );
+});
@@ -0,0 +1,57 @@
+import { env } from "../shared/config.ts";
+
+export type ImapTlsMode = "tls" | "starttls" | "none";
+
+export type ImapConfig = {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  tls: ImapTlsMode;
+  trashFolder?: string;
+  archiveFolder?: string;
+};
+
+const parseTlsMode = (value: string | undefined): ImapTlsMode => {
+  switch (value?.toLowerCase()) {
+    case undefined:
+    case "":
+    case "true":
+    case "tls":
+      return "tls";
+    case "starttls":
+      return "starttls";
+    case "false":
+    case "none":
+      return "none";
+    default:
+      throw new Error(
+        `Invalid IMAP_TLS value '${value}' (expected tls, starttls or none)`,
+      );
+  }
+};
+
+export const getImapConfig = (): ImapConfig => {
+  const host = env("IMAP_HOST");
+  const user = env("IMAP_USER");
+  const password = env("IMAP_PASSWORD");
+
+  if (!host || !user || !password) {
+    throw new Error(
+      "IMAP backend requires IMAP_HOST, IMAP_USER and IMAP_PASSWORD to be set.",
+    );
+  }
+
+  const tls = parseTlsMode(env("IMAP_TLS"));
+  const portEnv = env("IMAP_PORT");
+
+  return {
+    host,
+    port: portEnv ? parseInt(portEnv, 10) : tls === "tls" ? 993 : 143,
+    user,
+    password,
+    tls,
+    trashFolder: env("IMAP_TRASH") || undefined,
+    archiveFolder: env("IMAP_ARCHIVE") || undefined,
+  };
+};
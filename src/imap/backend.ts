@@ -0,0 +1,33 @@
+import type { MailBackend } from "../shared/backend.ts";
+import type { UnifiedEmail } from "../shared/types.ts";
+import {
+  batchArchive,
+  batchCategorize,
+  batchMoveToFolder,
+  batchMoveToTrash,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+} from "./emails.ts";
+
+const toItemRefs = (emails: UnifiedEmail[]) =>
+  emails.map((e) => ({ mailbox: e.mailbox!, id: e.id }));
+
+export const imapBackend: MailBackend = {
+  name: "imap",
+  displayName: "IMAP",
+  capabilities: new Set([
+    "trash",
+    "archive",
+    "move",
+    "mark-read",
+    "categorize",
+  ]),
+  fetchGitHubEmails,
+  moveToTrash: (emails) => batchMoveToTrash(toItemRefs(emails)),
+  archive: (emails) => batchArchive(toItemRefs(emails)),
+  moveToFolder: (emails, folder) =>
+    batchMoveToFolder(toItemRefs(emails), folder),
+  setReadStatus: (emails, read) => batchSetReadStatus(toItemRefs(emails), read),
+  categorize: (emails, category) =>
+    batchCategorize(toItemRefs(emails), category),
+};
@@ -0,0 +1,190 @@
+import type { ImapConfig } from "./auth.ts";
+
+export type ImapUntagged = {
+  line: string;
+  literals: string[];
+};
+
+export type ImapResponse = {
+  status: "OK" | "NO" | "BAD";
+  text: string;
+  untagged: ImapUntagged[];
+};
+
+export type ImapSession = {
+  capabilities: Set<string>;
+  command: (command: string) => Promise<ImapResponse>;
+  logout: () => Promise<void>;
+};
+
+const LITERAL_MARKER = "\u0000";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const quoteImapString = (value: string): string =>
+  `"${value.replace(/[\\"]/g, "\\$&")}"`;
+
+const indexOfCrlf = (buffer: Uint8Array): number => {
+  for (let i = 0; i < buffer.length - 1; i++) {
+    if (buffer[i] === 13 && buffer[i + 1] === 10) return i;
+  }
+  return -1;
+};
+
+const createReader = (state: { conn: Deno.Conn }) => {
+  let buffer = new Uint8Array(0);
+
+  const fill = async (): Promise<void> => {
+    const chunk = new Uint8Array(16384);
+    const n = await state.conn.read(chunk);
+    if (n === null) {
+      throw new Error("IMAP connection closed by server");
+    }
+    const next = new Uint8Array(buffer.length + n);
+    next.set(buffer);
+    next.set(chunk.subarray(0, n), buffer.length);
+    buffer = next;
+  };
+
+  const readLine = async (): Promise<string> => {
+    while (true) {
+      const idx = indexOfCrlf(buffer);
+      if (idx !== -1) {
+        const line = decoder.decode(buffer.subarray(0, idx));
+        buffer = buffer.subarray(idx + 2);
+        return line;
+      }
+      await fill();
+    }
+  };
+
+  const readBytes = async (count: number): Promise<string> => {
+    while (buffer.length < count) {
+      await fill();
+    }
+    const bytes = buffer.subarray(0, count);
+    buffer = buffer.subarray(count);
+    return decoder.decode(bytes);
+  };
+
+  // Reads one logical response line, inlining any {n} literals as markers.
+  const readResponseLine = async (): Promise<ImapUntagged> => {
+    const literals: string[] = [];
+    let line = await readLine();
+    while (true) {
+      const literal = line.match(/\{(\d+)\+?\}$/);
+      if (!literal) break;
+      literals.push(await readBytes(parseInt(literal[1], 10)));
+      line = line.slice(0, literal.index) + LITERAL_MARKER + await readLine();
+    }
+    return { line, literals };
+  };
+
+  return { readLine, readResponseLine };
+};
+
+export const unquoteImapString = (
+  token: string,
+  literals: string[] = [],
+): string => {
+  if (token === LITERAL_MARKER) return literals[0] ?? "";
+  if (token.startsWith('"') && token.endsWith('"')) {
+    return token.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return token;
+};
+
+export const connectImap = async (config: ImapConfig): Promise<ImapSession> => {
+  const state: { conn: Deno.Conn; tagCounter: number } = {
+    conn: config.tls === "tls"
+      ? await Deno.connectTls({ hostname: config.host, port: config.port })
+      : await Deno.connect({ hostname: config.host, port: config.port }),
+    tagCounter: 0,
+  };
+  const reader = createReader(state);
+
+  const greeting = await reader.readLine();
+  if (!greeting.startsWith("* OK") && !greeting.startsWith("* PREAUTH")) {
+    state.conn.close();
+    throw new Error(`Unexpected IMAP greeting: ${greeting}`);
+  }
+
+  const command = async (cmd: string): Promise<ImapResponse> => {
+    const tag = `A${String(++state.tagCounter).padStart(4, "0")}`;
+    await state.conn.write(encoder.encode(`${tag} ${cmd}\r\n`));
+
+    const untagged: ImapUntagged[] = [];
+    while (true) {
+      const response = await reader.readResponseLine();
+      if (response.line.startsWith(`${tag} `)) {
+        const rest = response.line.slice(tag.length + 1);
+        const [status] = rest.split(" ", 1);
+        return {
+          status: status.toUpperCase() as ImapResponse["status"],
+          text: rest.slice(status.length + 1),
+          untagged,
+        };
+      }
+      if (response.line.startsWith("* ")) {
+        untagged.push(response);
+      }
+    }
+  };
+
+  const expectOk = async (cmd: string, label: string) => {
+    const response = await command(cmd);
+    if (response.status !== "OK") {
+      throw new Error(`IMAP ${label} failed: ${response.text}`);
+    }
+    return response;
+  };
+
+  const loadCapabilities = async (): Promise<Set<string>> => {
+    const response = await expectOk("CAPABILITY", "CAPABILITY");
+    const line = response.untagged.find((u) => /^\* CAPABILITY /i.test(u.line))
+      ?.line ?? "";
+    return new Set(
+      line.replace(/^\* CAPABILITY /i, "").toUpperCase().split(" "),
+    );
+  };
+
+  try {
+    if (config.tls === "starttls") {
+      await expectOk("STARTTLS", "STARTTLS");
+      state.conn = await Deno.startTls(state.conn as Deno.TcpConn, {
+        hostname: config.host,
+      });
+    }
+
+    if (!greeting.startsWith("* PREAUTH")) {
+      await expectOk(
+        `LOGIN ${quoteImapString(config.user)} ${
+          quoteImapString(config.password)
+        }`,
+        "login",
+      );
+    }
+
+    const capabilities = await loadCapabilities();
+
+    const logout = async (): Promise<void> => {
+      try {
+        await command("LOGOUT");
+      } catch {
+        // Server may close the connection before the tagged response
+      } finally {
+        try {
+          state.conn.close();
+        } catch {
+          // already closed
+        }
+      }
+    };
+
+    return { capabilities, command, logout };
+  } catch (e) {
+    state.conn.close();
+    throw e;
+  }
+};
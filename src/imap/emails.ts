@@ -0,0 +1,523 @@
+import { getImapConfig } from "./auth.ts";
+import {
+  connectImap,
+  type ImapSession,
+  type ImapUntagged,
+  quoteImapString,
+  unquoteImapString,
+} from "./client.ts";
+import { parsePrFromSubject } from "../shared/parse-subject.ts";
+import {
+  applyGitHubHeaders,
+  headersFromRecord,
+} from "../shared/github-headers.ts";
+import { githubSenders, isGitHubSender } from "../shared/github-hosts.ts";
+import { extractTextBody, splitMessage } from "../shared/mail-headers.ts";
+import { bodyDetails } from "../shared/email-body.ts";
+import type { ImapEmail } from "../shared/types.ts";
+import { type BatchResult, emptyBatchResult } from "../shared/backend.ts";
+
+export type { ImapEmail as GitHubEmail };
+
+const FETCH_CHUNK_SIZE = 200;
+const TRASH_FALLBACK_NAMES = [
+  "Trash",
+  "Deleted Items",
+  "Deleted Messages",
+  "[Gmail]/Trash",
+  "INBOX.Trash",
+];
+const ARCHIVE_FALLBACK_NAMES = [
+  "Archive",
+  "Archives",
+  "[Gmail]/All Mail",
+  "INBOX.Archive",
+];
+
+type ImapFolder = {
+  name: string;
+  delimiter: string | null;
+  attributes: Set<string>;
+};
+
+const MONTHS: Record<string, string> = {
+  jan: "01",
+  feb: "02",
+  mar: "03",
+  apr: "04",
+  may: "05",
+  jun: "06",
+  jul: "07",
+  aug: "08",
+  sep: "09",
+  oct: "10",
+  nov: "11",
+  dec: "12",
+};
+
+// UIDs are only unique within a mailbox, so email IDs carry both.
+const emailId = (mailbox: string, uid: string): string => `${mailbox}:${uid}`;
+const uidOf = (id: string): string => id.slice(id.lastIndexOf(":") + 1);
+
+const withSession = async <T>(
+  fn: (session: ImapSession) => Promise<T>,
+): Promise<T> => {
+  const session = await connectImap(getImapConfig());
+  try {
+    return await fn(session);
+  } finally {
+    await session.logout();
+  }
+};
+
+const parseInternalDate = (value: string): string => {
+  const match = value.match(
+    /^\s*(\d{1,2})-(\w{3})-(\d{4}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/,
+  );
+  if (!match) return value;
+  const [, d, mon, y, h, min, s, sign, tzH, tzM] = match;
+  const month = MONTHS[mon.toLowerCase()];
+  if (!month) return value;
+  const iso = `${y}-${month}-${
+    d.padStart(2, "0")
+  }T${h}:${min}:${s}${sign}${tzH}:${tzM}`;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+const parseListResponse = (untagged: ImapUntagged): ImapFolder | null => {
+  const match = untagged.line.match(
+    /^\* LIST \(([^)]*)\) (NIL|"(?:[^"\\]|\\.)*") (.+)$/i,
+  );
+  if (!match) return null;
+  const delimiter = match[2].toUpperCase() === "NIL"
+    ? null
+    : unquoteImapString(match[2]);
+  return {
+    name: unquoteImapString(match[3], untagged.literals),
+    delimiter,
+    attributes: new Set(
+      match[1].split(" ").filter(Boolean).map((a) => a.toLowerCase()),
+    ),
+  };
+};
+
+const listFolders = async (session: ImapSession): Promise<ImapFolder[]> => {
+  const response = await session.command('LIST "" "*"');
+  if (response.status !== "OK") {
+    throw new Error(`IMAP LIST failed: ${response.text}`);
+  }
+  return response.untagged
+    .map(parseListResponse)
+    .filter((f): f is ImapFolder => f !== null);
+};
+
+const lastSegment = (folder: ImapFolder): string =>
+  folder.delimiter
+    ? folder.name.split(folder.delimiter).pop() ?? folder.name
+    : folder.name;
+
+const findGitHubFolders = (
+  folders: ImapFolder[],
+): Array<{ folder: ImapFolder; displayName: string }> => {
+  const githubParent = folders.find((f) =>
+    lastSegment(f).toLowerCase() === "github"
+  );
+
+  if (!githubParent) {
+    console.log("No 'github' folder found in mailbox.");
+    return [];
+  }
+
+  const prefix = `${githubParent.name}${githubParent.delimiter ?? "/"}`;
+  const children = folders
+    .filter((f) => f.name.startsWith(prefix))
+    .map((f) => ({ folder: f, displayName: f.name.slice(prefix.length) }))
+    .filter((c) =>
+      !githubParent.delimiter || !c.displayName.includes(githubParent.delimiter)
+    );
+
+  return children.length > 0
+    ? children
+    : [{ folder: githubParent, displayName: lastSegment(githubParent) }];
+};
+
+// Resolves an RFC 6154 special-use folder (\Trash, \Archive), falling back
+// to common names when the server doesn't advertise one.
+const findSpecialUseFolder = (
+  folders: ImapFolder[],
+  use: "trash" | "archive",
+  configured?: string,
+): string => {
+  if (configured) return configured;
+
+  const specialUse = folders.find((f) => f.attributes.has(`\\${use}`));
+  if (specialUse) return specialUse.name;
+
+  const fallbacks = use === "trash"
+    ? TRASH_FALLBACK_NAMES
+    : ARCHIVE_FALLBACK_NAMES;
+  for (const name of fallbacks) {
+    const match = folders.find((f) =>
+      f.name.toLowerCase() === name.toLowerCase()
+    );
+    if (match) return match.name;
+  }
+
+  throw new Error(
+    `No ${use} folder found on IMAP server. Set IMAP_${use.toUpperCase()} to its name.`,
+  );
+};
+
+const selectFolder = async (
+  session: ImapSession,
+  mailbox: string,
+  readOnly: boolean,
+): Promise<void> => {
+  const verb = readOnly ? "EXAMINE" : "SELECT";
+  const response = await session.command(
+    `${verb} ${quoteImapString(mailbox)}`,
+  );
+  if (response.status !== "OK") {
+    throw new Error(`IMAP ${verb} ${mailbox} failed: ${response.text}`);
+  }
+};
+
+// IMAP OR takes two keys, so n senders need n-1 ORs in front.
+const githubSearchKey = (): string => {
+  const senders = githubSenders();
+  return "OR ".repeat(senders.length - 1) +
+    senders.map((s) => `FROM ${quoteImapString(s)}`).join(" ");
+};
+
+// UNDELETED skips messages an earlier move left behind without UIDPLUS.
+const searchGitHubUids = async (session: ImapSession): Promise<number[]> => {
+  const response = await session.command(
+    `UID SEARCH UNDELETED ${githubSearchKey()}`,
+  );
+  if (response.status !== "OK") {
+    throw new Error(`IMAP SEARCH failed: ${response.text}`);
+  }
+  return response.untagged
+    .filter((u) => /^\* SEARCH\b/i.test(u.line))
+    .flatMap((u) =>
+      u.line.replace(/^\* SEARCH\s*/i, "").split(" ").filter(Boolean)
+    )
+    .map((n) => parseInt(n, 10))
+    .filter((n) => !isNaN(n));
+};
+
+// UID -> the FETCH item's line and literals, for one chunk of UIDs.
+const fetchItems = async (
+  session: ImapSession,
+  uids: string[],
+  items: string,
+): Promise<Map<string, ImapUntagged>> => {
+  const response = await session.command(
+    `UID FETCH ${uids.join(",")} (${items})`,
+  );
+  if (response.status !== "OK") {
+    throw new Error(`IMAP FETCH failed: ${response.text}`);
+  }
+  const byUid = new Map<string, ImapUntagged>();
+  for (const item of response.untagged) {
+    if (!/^\* \d+ FETCH /i.test(item.line)) continue;
+    const uid = item.line.match(/\bUID (\d+)/i)?.[1];
+    if (uid) byUid.set(uid, item);
+  }
+  return byUid;
+};
+
+// SEARCH FROM is a substring match anywhere in the header, so headers come
+// first and only messages that really are from GitHub have their body fetched.
+const findEmailsInFolder = async (
+  session: ImapSession,
+  mailbox: string,
+): Promise<ImapEmail[]> => {
+  await selectFolder(session, mailbox, true);
+  const uids = (await searchGitHubUids(session)).map(String);
+  const emails: ImapEmail[] = [];
+
+  for (let i = 0; i < uids.length; i += FETCH_CHUNK_SIZE) {
+    const chunk = uids.slice(i, i + FETCH_CHUNK_SIZE);
+    const headerItems = await fetchItems(
+      session,
+      chunk,
+      "UID INTERNALDATE BODY.PEEK[HEADER]",
+    );
+    const matches = [...headerItems].flatMap(([uid, item]) => {
+      const { headers } = splitMessage(item.literals[0] ?? "");
+      return isGitHubSender(headers["from"]) ? [{ uid, item, headers }] : [];
+    });
+    if (matches.length === 0) continue;
+
+    const bodyItems = await fetchItems(
+      session,
+      matches.map((m) => m.uid),
+      "UID BODY.PEEK[TEXT]",
+    );
+
+    for (const { uid, item, headers } of matches) {
+      const internalDate = item.line.match(/INTERNALDATE "([^"]+)"/i)?.[1];
+      const body = bodyItems.get(uid)?.literals[0] ?? "";
+      const subject = headers["subject"] ?? "";
+      const { repo, prNumber } = parsePrFromSubject(subject);
+
+      emails.push(applyGitHubHeaders({
+        id: emailId(mailbox, uid),
+        messageId: headers["message-id"],
+        subject,
+        receivedDateTime: internalDate ? parseInternalDate(internalDate) : "",
+        repo,
+        prNumber,
+        mailbox,
+        ...bodyDetails(extractTextBody(headers, body)),
+      }, headersFromRecord(headers)));
+    }
+  }
+
+  return emails;
+};
+
+export const fetchGitHubEmails = (
+  folderName?: string,
+): Promise<ImapEmail[]> =>
+  withSession(async (session) => {
+    const allEmails: ImapEmail[] = [];
+    const scanInbox = folderName === undefined ||
+      folderName?.toLowerCase() === "inbox";
+    const scanGithub = folderName === undefined ||
+      (folderName !== undefined && folderName.toLowerCase() !== "inbox");
+
+    if (scanGithub) {
+      const folders = findGitHubFolders(await listFolders(session));
+      const targetFolders = folderName
+        ? folders.filter((f) =>
+          f.displayName.toLowerCase() === folderName.toLowerCase()
+        )
+        : folders;
+
+      if (targetFolders.length === 0 && folderName) {
+        console.log(`No folder named '${folderName}' found under github/`);
+      }
+
+      for (const { folder, displayName } of targetFolders) {
+        console.log(`Scanning folder: github/${displayName}`);
+        allEmails.push(...await findEmailsInFolder(session, folder.name));
+      }
+    }
+
+    if (scanInbox) {
+      console.log("Scanning folder: INBOX");
+      allEmails.push(...await findEmailsInFolder(session, "INBOX"));
+    }
+
+    return allEmails;
+  });
+
+const moveUids = async (
+  session: ImapSession,
+  uids: string[],
+  destination: string,
+): Promise<void> => {
+  const set = uids.join(",");
+  const target = quoteImapString(destination);
+
+  if (session.capabilities.has("MOVE")) {
+    const response = await session.command(`UID MOVE ${set} ${target}`);
+    if (response.status !== "OK") {
+      throw new Error(`UID MOVE failed: ${response.text}`);
+    }
+    return;
+  }
+
+  const copy = await session.command(`UID COPY ${set} ${target}`);
+  if (copy.status !== "OK") {
+    throw new Error(`UID COPY failed: ${copy.text}`);
+  }
+  const store = await session.command(
+    `UID STORE ${set} +FLAGS.SILENT (\\Deleted)`,
+  );
+  if (store.status !== "OK") {
+    throw new Error(`UID STORE failed: ${store.text}`);
+  }
+  // A plain EXPUNGE would also remove every other \Deleted message in the
+  // folder, so without UIDPLUS the originals stay flagged for the user's
+  // client or the server to expunge.
+  if (!session.capabilities.has("UIDPLUS")) {
+    console.log(
+      `Server lacks UIDPLUS: left ${uids.length} copied emails flagged \\Deleted`,
+    );
+    return;
+  }
+  const expunge = await session.command(`UID EXPUNGE ${set}`);
+  if (expunge.status !== "OK") {
+    throw new Error(`UID EXPUNGE failed: ${expunge.text}`);
+  }
+};
+
+type ImapItemRef = { mailbox: string; id: string };
+
+const groupByMailbox = (
+  items: ImapItemRef[],
+): Map<string, ImapItemRef[]> => {
+  const byMailbox = new Map<string, ImapItemRef[]>();
+  for (const item of items) {
+    const existing = byMailbox.get(item.mailbox) ?? [];
+    existing.push(item);
+    byMailbox.set(item.mailbox, existing);
+  }
+  return byMailbox;
+};
+
+const runPerMailbox = async (
+  session: ImapSession,
+  items: ImapItemRef[],
+  action: (uids: string[]) => Promise<void>,
+  describe: (processed: number, total: number) => string,
+): Promise<BatchResult> => {
+  const batchSize = 100;
+  const result = emptyBatchResult();
+
+  for (const [mailbox, refs] of groupByMailbox(items).entries()) {
+    try {
+      await selectFolder(session, mailbox, false);
+    } catch (e) {
+      result.failed += refs.length;
+      (result.failedIds ??= []).push(...refs.map((r) => r.id));
+      result.errors.push(`${mailbox}: ${e}`);
+      continue;
+    }
+
+    for (let i = 0; i < refs.length; i += batchSize) {
+      const batch = refs.slice(i, i + batchSize);
+      try {
+        await action(batch.map((r) => uidOf(r.id)));
+        result.succeeded += batch.length;
+      } catch (e) {
+        result.failed += batch.length;
+        (result.failedIds ??= []).push(...batch.map((r) => r.id));
+        result.errors.push(`${mailbox}: ${e}`);
+      }
+      console.log(describe(result.succeeded, items.length));
+    }
+  }
+
+  if (result.errors.length > 0) {
+    console.log(`\nWarnings: ${result.errors.length} issues occurred`);
+    for (const error of result.errors) {
+      console.log(`  ${error}`);
+    }
+  }
+
+  return result;
+};
+
+export const batchMoveToFolder = (
+  items: ImapItemRef[],
+  folder: string,
+): Promise<BatchResult> =>
+  withSession(async (session) => {
+    const folders = await listFolders(session);
+    const target = folders.find((f) =>
+      f.name.toLowerCase() === folder.toLowerCase() ||
+      (f.delimiter !== null &&
+        f.name.split(f.delimiter).join("/").toLowerCase() ===
+          folder.toLowerCase())
+    );
+    if (!target) {
+      throw new Error(`IMAP folder '${folder}' not found`);
+    }
+    return runPerMailbox(
+      session,
+      items,
+      (uids) => moveUids(session, uids, target.name),
+      (processed, total) => `Moved ${processed}/${total} emails to ${folder}`,
+    );
+  });
+
+export const batchMoveToTrash = (
+  items: ImapItemRef[],
+): Promise<BatchResult> =>
+  withSession(async (session) => {
+    const trash = findSpecialUseFolder(
+      await listFolders(session),
+      "trash",
+      getImapConfig().trashFolder,
+    );
+    return runPerMailbox(
+      session,
+      items,
+      (uids) => moveUids(session, uids, trash),
+      (processed, total) => `Moved ${processed}/${total} emails to trash`,
+    );
+  });
+
+export const batchArchive = (
+  items: ImapItemRef[],
+): Promise<BatchResult> =>
+  withSession(async (session) => {
+    const archive = findSpecialUseFolder(
+      await listFolders(session),
+      "archive",
+      getImapConfig().archiveFolder,
+    );
+    return runPerMailbox(
+      session,
+      items,
+      (uids) => moveUids(session, uids, archive),
+      (processed, total) => `Archived ${processed}/${total} emails`,
+    );
+  });
+
+const storeFlags = async (
+  session: ImapSession,
+  uids: string[],
+  op: string,
+  flags: string,
+): Promise<void> => {
+  const response = await session.command(
+    `UID STORE ${uids.join(",")} ${op} (${flags})`,
+  );
+  if (response.status !== "OK") {
+    throw new Error(`UID STORE failed: ${response.text}`);
+  }
+};
+
+// IMAP keywords are atoms, so characters like spaces and brackets are replaced.
+const toKeyword = (category: string): string =>
+  category.replace(/[\s(){}%*"\\\]\[]/g, "_");
+
+export const batchCategorize = (
+  items: ImapItemRef[],
+  category: string,
+): Promise<BatchResult> =>
+  withSession((session) =>
+    runPerMailbox(
+      session,
+      items,
+      (uids) => storeFlags(session, uids, "+FLAGS.SILENT", toKeyword(category)),
+      (processed, total) =>
+        `Categorized ${processed}/${total} emails as '${category}'`,
+    )
+  );
+
+export const batchSetReadStatus = (
+  items: ImapItemRef[],
+  read: boolean,
+): Promise<BatchResult> =>
+  withSession((session) =>
+    runPerMailbox(
+      session,
+      items,
+      (uids) =>
+        storeFlags(
+          session,
+          uids,
+          read ? "+FLAGS.SILENT" : "-FLAGS.SILENT",
+          "\\Seen",
+        ),
+      (processed, total) =>
+        `Marked ${processed}/${total} emails as ${read ? "read" : "unread"}`,
+    )
+  );
@@ -0,0 +1,197 @@
+import { assertEquals } from "@std/assert";
+import { appliedItems } from "../shared/backend.ts";
+import { batchMoveToTrash, fetchGitHubEmails } from "./emails.ts";
+
+type Reply = { untagged?: string[]; status?: string };
+
+// A local IMAP server that answers each command from a script and records
+// what the client sent.
+const withServer = async (
+  capabilities: string,
+  script: (command: string) => Reply,
+  fn: (commands: string[]) => Promise<void>,
+) => {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const commands: string[] = [];
+  const encoder = new TextEncoder();
+
+  const handle = async (conn: Deno.Conn) => {
+    const write = (text: string) => conn.write(encoder.encode(text));
+    await write("* OK scripted server ready\r\n");
+    let buffer = "";
+    for await (
+      const chunk of conn.readable.pipeThrough(new TextDecoderStream())
+    ) {
+      buffer += chunk;
+      let end;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const [tag, ...rest] = line.split(" ");
+        const command = rest.join(" ");
+        const reply: Reply = command === "CAPABILITY"
+          ? { untagged: [`* CAPABILITY IMAP4rev1 ${capabilities}`] }
+          : command.startsWith("LOGIN ") || command === "LOGOUT"
+          ? {}
+          : (commands.push(command), script(command));
+        for (const untagged of reply.untagged ?? []) {
+          await write(`${untagged}\r\n`);
+        }
+        await write(`${tag} ${reply.status ?? "OK"} done\r\n`);
+        if (command === "LOGOUT") return;
+      }
+    }
+  };
+
+  const accepting = (async () => {
+    for await (const conn of listener) {
+      try {
+        await handle(conn);
+      } catch {
+        // the client hung up first
+      } finally {
+        try {
+          conn.close();
+        } catch {
+          // already closed
+        }
+      }
+    }
+  })();
+
+  const vars: Record<string, string> = {
+    IMAP_HOST: "127.0.0.1",
+    IMAP_PORT: String((listener.addr as Deno.NetAddr).port),
+    IMAP_USER: "me@example.com",
+    IMAP_PASSWORD: "secret",
+    IMAP_TLS: "none",
+    IMAP_TRASH: "Trash",
+  };
+  const saved = Object.keys(vars).map((name) => [name, Deno.env.get(name)]);
+  for (const [name, value] of Object.entries(vars)) Deno.env.set(name, value);
+  const { log } = console;
+  console.log = () => {};
+
+  try {
+    await fn(commands);
+  } finally {
+    console.log = log;
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name!);
+      else Deno.env.set(name!, value);
+    }
+    listener.close();
+    await accepting.catch(() => {});
+  }
+};
+
+const headerFetch = (seq: number, uid: number, headers: string) => {
+  const literal = `${headers}\r\n\r\n`;
+  return [
+    `* ${seq} FETCH (UID ${uid} INTERNALDATE "01-May-2024 12:30:00 +0200" BODY[HEADER] {${literal.length}}\r\n${literal})`,
+  ];
+};
+
+Deno.test("only emails really from GitHub have their body fetched", async () => {
+  const body = "Merged #7 into main.\r\n";
+  await withServer("", (command) => {
+    if (command.startsWith("UID SEARCH")) {
+      return { untagged: ["* SEARCH 5 9"] };
+    }
+    if (command.includes("BODY.PEEK[HEADER]")) {
+      return {
+        untagged: [
+          ...headerFetch(
+            1,
+            5,
+            "From: Bob <notifications@github.com>\r\nSubject: Re: [acme/widgets] Fix it (PR #7)\r\nMessage-ID: <pr7@github.com>",
+          ),
+          ...headerFetch(
+            2,
+            9,
+            'From: "notifications@github.com" <eve@example.com>\r\nSubject: Hi',
+          ),
+        ],
+      };
+    }
+    if (command.includes("BODY.PEEK[TEXT]")) {
+      return {
+        untagged: [`* 1 FETCH (UID 5 BODY[TEXT] {${body.length}}\r\n${body})`],
+      };
+    }
+    return {};
+  }, async (commands) => {
+    const emails = await fetchGitHubEmails("inbox");
+
+    assertEquals(commands, [
+      'EXAMINE "INBOX"',
+      'UID SEARCH UNDELETED FROM "notifications@github.com"',
+      "UID FETCH 5,9 (UID INTERNALDATE BODY.PEEK[HEADER])",
+      "UID FETCH 5 (UID BODY.PEEK[TEXT])",
+    ]);
+    assertEquals(emails.length, 1);
+    assertEquals(emails[0].id, "INBOX:5");
+    assertEquals(emails[0].mailbox, "INBOX");
+    assertEquals(emails[0].repo, "acme/widgets");
+    assertEquals(emails[0].prNumber, 7);
+    assertEquals(emails[0].messageId, "<pr7@github.com>");
+    assertEquals(emails[0].receivedDateTime, "2024-05-01T10:30:00.000Z");
+  });
+});
+
+const LIST = ['* LIST (\\HasNoChildren) "/" "Trash"'];
+
+const listOr = (reply: (command: string) => Reply) => (command: string) =>
+  command.startsWith("LIST ") ? { untagged: LIST } : reply(command);
+
+Deno.test("UID MOVE is used when the server has it", async () => {
+  await withServer("MOVE UIDPLUS", listOr(() => ({})), async (commands) => {
+    const result = await batchMoveToTrash([
+      { mailbox: "INBOX", id: "INBOX:5" },
+      { mailbox: "INBOX", id: "INBOX:9" },
+    ]);
+
+    assertEquals(result.succeeded, 2);
+    assertEquals(commands.slice(1), ['SELECT "INBOX"', 'UID MOVE 5,9 "Trash"']);
+  });
+});
+
+Deno.test("COPY falls back to UID EXPUNGE only with UIDPLUS", async () => {
+  const copyAndStore = [
+    'SELECT "INBOX"',
+    'UID COPY 5 "Trash"',
+    "UID STORE 5 +FLAGS.SILENT (\\Deleted)",
+  ];
+
+  await withServer("UIDPLUS", listOr(() => ({})), async (commands) => {
+    await batchMoveToTrash([{ mailbox: "INBOX", id: "INBOX:5" }]);
+    assertEquals(commands.slice(1), [...copyAndStore, "UID EXPUNGE 5"]);
+  });
+
+  // A plain EXPUNGE would remove other \Deleted messages too.
+  await withServer("", listOr(() => ({})), async (commands) => {
+    const result = await batchMoveToTrash([{
+      mailbox: "INBOX",
+      id: "INBOX:5",
+    }]);
+    assertEquals(commands.slice(1), copyAndStore);
+    assertEquals(result.succeeded, 1);
+  });
+});
+
+Deno.test("a failure in one mailbox doesn't mark the same UID elsewhere", async () => {
+  const script = listOr((command) =>
+    command === 'SELECT "github/ci"' ? { status: "NO" } : {}
+  );
+  await withServer("MOVE", script, async () => {
+    const items = [
+      { mailbox: "INBOX", id: "INBOX:42" },
+      { mailbox: "github/ci", id: "github/ci:42" },
+    ];
+    const result = await batchMoveToTrash(items);
+
+    assertEquals(result.succeeded, 1);
+    assertEquals(result.failedIds, ["github/ci:42"]);
+    assertEquals(appliedItems(items, result), [items[0]]);
+  });
+});
@@ -0,0 +1,33 @@
+import { env } from "../shared/config.ts";
+
+export type JmapConfig = {
+  sessionUrl: string;
+  authorization: string;
+};
+
+export const getJmapConfig = (): JmapConfig => {
+  const sessionUrl = env("JMAP_SESSION_URL");
+  if (!sessionUrl) {
+    throw new Error(
+      "JMAP backend requires JMAP_SESSION_URL (e.g. https://api.fastmail.com/jmap/session).",
+    );
+  }
+
+  const token = env("JMAP_TOKEN");
+  if (token) {
+    return { sessionUrl, authorization: `Bearer ${token}` };
+  }
+
+  const user = env("JMAP_USER");
+  const password = env("JMAP_PASSWORD");
+  if (user && password) {
+    return {
+      sessionUrl,
+      authorization: `Basic ${btoa(`${user}:${password}`)}`,
+    };
+  }
+
+  throw new Error(
+    "JMAP backend requires JMAP_TOKEN, or JMAP_USER and JMAP_PASSWORD.",
+  );
+};
@@ -0,0 +1,30 @@
+import type { MailBackend } from "../shared/backend.ts";
+import {
+  batchArchive,
+  batchCategorize,
+  batchMoveToFolder,
+  batchMoveToTrash,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+} from "./emails.ts";
+
+export const jmapBackend: MailBackend = {
+  name: "jmap",
+  displayName: "JMAP",
+  capabilities: new Set([
+    "trash",
+    "archive",
+    "move",
+    "mark-read",
+    "categorize",
+  ]),
+  fetchGitHubEmails,
+  moveToTrash: (emails) => batchMoveToTrash(emails.map((e) => e.id)),
+  archive: (emails) => batchArchive(emails.map((e) => e.id)),
+  moveToFolder: (emails, folder) =>
+    batchMoveToFolder(emails.map((e) => e.id), folder),
+  setReadStatus: (emails, read) =>
+    batchSetReadStatus(emails.map((e) => e.id), read),
+  categorize: (emails, category) =>
+    batchCategorize(emails.map((e) => e.id), category),
+};
@@ -0,0 +1,406 @@
+import { getJmapConfig } from "./auth.ts";
+import { parsePrFromSubject } from "../shared/parse-subject.ts";
+import { applyGitHubHeaders } from "../shared/github-headers.ts";
+import { githubSenders } from "../shared/github-hosts.ts";
+import { bodyDetails } from "../shared/email-body.ts";
+import { type BatchResult, emptyBatchResult } from "../shared/backend.ts";
+import type { JmapEmail } from "../shared/types.ts";
+import { perAccount } from "../shared/config.ts";
+
+export type { JmapEmail as GitHubEmail };
+
+const CORE = "urn:ietf:params:jmap:core";
+const MAIL = "urn:ietf:params:jmap:mail";
+const QUERY_PAGE_SIZE = 500;
+const DEFAULT_MAX_OBJECTS_IN_SET = 500;
+
+type JmapSession = {
+  apiUrl: string;
+  accountId: string;
+  maxObjectsInSet: number;
+};
+
+type Mailbox = {
+  id: string;
+  name: string;
+  parentId: string | null;
+  role: string | null;
+};
+
+type EmailObject = {
+  id: string;
+  subject: string | null;
+  receivedAt: string;
+  messageId: string[] | null;
+  "header:X-GitHub-Reason:asText"?: string | null;
+  "header:List-ID:asText"?: string | null;
+  textBody?: { partId: string }[];
+  bodyValues?: Record<string, { value: string }>;
+};
+
+type MethodCall = [string, Record<string, unknown>, string];
+type MethodResponse = [string, Record<string, unknown>, string];
+
+type SetError = { type: string; description?: string };
+
+const sessionState = perAccount(
+  (): { promise?: Promise<JmapSession> } => ({}),
+);
+
+const getSession = (): Promise<JmapSession> => {
+  const state = sessionState();
+  if (!state.promise) {
+    state.promise = (async () => {
+      const { sessionUrl, authorization } = getJmapConfig();
+      const response = await fetch(sessionUrl, {
+        headers: { Authorization: authorization },
+      });
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`JMAP session error: ${response.status} ${error}`);
+      }
+      const session = await response.json();
+      const accountId = session.primaryAccounts?.[MAIL];
+      if (!accountId) {
+        throw new Error("JMAP server has no mail account for this user");
+      }
+      return {
+        apiUrl: new URL(session.apiUrl, sessionUrl).toString(),
+        accountId,
+        maxObjectsInSet: session.capabilities?.[CORE]?.maxObjectsInSet ??
+          DEFAULT_MAX_OBJECTS_IN_SET,
+      };
+    })();
+  }
+  return state.promise;
+};
+
+const jmapRequest = async (
+  methodCalls: MethodCall[],
+): Promise<MethodResponse[]> => {
+  const session = await getSession();
+  const { authorization } = getJmapConfig();
+  const response = await fetch(session.apiUrl, {
+    method: "POST",
+    headers: {
+      Authorization: authorization,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ using: [CORE, MAIL], methodCalls }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`JMAP request failed: ${response.status} ${error}`);
+  }
+
+  const body: { methodResponses: MethodResponse[] } = await response.json();
+  for (const [name, args] of body.methodResponses) {
+    if (name === "error") {
+      throw new Error(
+        `JMAP method error: ${args.type}${
+          args.description ? ` (${args.description})` : ""
+        }`,
+      );
+    }
+  }
+  return body.methodResponses;
+};
+
+const responseFor = (
+  responses: MethodResponse[],
+  callId: string,
+): Record<string, unknown> => {
+  const match = responses.find(([, , id]) => id === callId);
+  if (!match) {
+    throw new Error(`JMAP response missing for call '${callId}'`);
+  }
+  return match[1];
+};
+
+const listMailboxes = async (): Promise<Mailbox[]> => {
+  const { accountId } = await getSession();
+  const responses = await jmapRequest([
+    [
+      "Mailbox/get",
+      { accountId, properties: ["id", "name", "parentId", "role"] },
+      "mailboxes",
+    ],
+  ]);
+  return responseFor(responses, "mailboxes").list as Mailbox[];
+};
+
+const mailboxPath = (mailboxes: Mailbox[], mailbox: Mailbox): string => {
+  const byId = new Map(mailboxes.map((m) => [m.id, m]));
+  const segments = [mailbox.name];
+  let parent = mailbox.parentId ? byId.get(mailbox.parentId) : undefined;
+  while (parent) {
+    segments.unshift(parent.name);
+    parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+  }
+  return segments.join("/");
+};
+
+const findGitHubMailboxes = (
+  mailboxes: Mailbox[],
+): Array<Mailbox & { displayName: string }> => {
+  const githubParent =
+    mailboxes.find((m) =>
+      m.name.toLowerCase() === "github" && m.parentId === null
+    ) ?? mailboxes.find((m) => m.name.toLowerCase() === "github");
+
+  if (!githubParent) {
+    console.log("No 'github' mailbox found.");
+    return [];
+  }
+
+  const children = mailboxes
+    .filter((m) => m.parentId === githubParent.id)
+    .map((m) => ({ ...m, displayName: m.name }));
+
+  return children.length > 0
+    ? children
+    : [{ ...githubParent, displayName: githubParent.name }];
+};
+
+const findEmailsInMailbox = async (
+  mailbox: Mailbox,
+  path: string,
+): Promise<JmapEmail[]> => {
+  const { accountId } = await getSession();
+  const emails: JmapEmail[] = [];
+  let position = 0;
+
+  while (true) {
+    const responses = await jmapRequest([
+      [
+        "Email/query",
+        {
+          accountId,
+          filter: {
+            operator: "AND",
+            conditions: [
+              { inMailbox: mailbox.id },
+              {
+                operator: "OR",
+                conditions: githubSenders().map((from) => ({ from })),
+              },
+            ],
+          },
+          sort: [{ property: "receivedAt", isAscending: false }],
+          position,
+          limit: QUERY_PAGE_SIZE,
+          calculateTotal: true,
+        },
+        "query",
+      ],
+      [
+        "Email/get",
+        {
+          accountId,
+          "#ids": { resultOf: "query", name: "Email/query", path: "/ids" },
+          properties: [
+            "id",
+            "subject",
+            "receivedAt",
+            "messageId",
+            "header:X-GitHub-Reason:asText",
+            "header:List-ID:asText",
+            "textBody",
+            "bodyValues",
+          ],
+          fetchTextBodyValues: true,
+        },
+        "emails",
+      ],
+    ]);
+
+    const query = responseFor(responses, "query");
+    const list = responseFor(responses, "emails").list as EmailObject[];
+
+    for (const email of list) {
+      const subject = email.subject ?? "";
+      const { repo, prNumber } = parsePrFromSubject(subject);
+      emails.push(applyGitHubHeaders({
+        id: email.id,
+        messageId: email.messageId?.[0],
+        subject,
+        receivedDateTime: email.receivedAt,
+        repo,
+        prNumber,
+        mailbox: path,
+        ...bodyDetails(
+          (email.textBody ?? [])
+            .map((part) => email.bodyValues?.[part.partId]?.value ?? "")
+            .join("\n"),
+        ),
+      }, {
+        reason: email["header:X-GitHub-Reason:asText"] ?? undefined,
+        listId: email["header:List-ID:asText"] ?? undefined,
+        messageId: email.messageId?.[0],
+      }));
+    }
+
+    const ids = query.ids as string[];
+    position += ids.length;
+    const total = query.total as number | undefined;
+    if (ids.length === 0 || (total !== undefined && position >= total)) break;
+  }
+
+  return emails;
+};
+
+export const fetchGitHubEmails = async (
+  folderName?: string,
+): Promise<JmapEmail[]> => {
+  const mailboxes = await listMailboxes();
+  const allEmails: JmapEmail[] = [];
+  const scanInbox = folderName === undefined ||
+    folderName?.toLowerCase() === "inbox";
+  const scanGithub = folderName === undefined ||
+    (folderName !== undefined && folderName.toLowerCase() !== "inbox");
+
+  if (scanGithub) {
+    const folders = findGitHubMailboxes(mailboxes);
+    const targetFolders = folderName
+      ? folders.filter((f) =>
+        f.displayName.toLowerCase() === folderName.toLowerCase()
+      )
+      : folders;
+
+    if (targetFolders.length === 0 && folderName) {
+      console.log(`No folder named '${folderName}' found under github/`);
+    }
+
+    for (const folder of targetFolders) {
+      console.log(`Scanning folder: github/${folder.displayName}`);
+      allEmails.push(
+        ...await findEmailsInMailbox(folder, mailboxPath(mailboxes, folder)),
+      );
+    }
+  }
+
+  const inbox = mailboxes.find((m) => m.role === "inbox");
+  if (scanInbox && inbox) {
+    console.log("Scanning folder: Inbox");
+    allEmails.push(...await findEmailsInMailbox(inbox, "Inbox"));
+  }
+
+  return allEmails;
+};
+
+const batchUpdate = async (
+  ids: string[],
+  patch: Record<string, unknown>,
+  describe: (processed: number, total: number) => string,
+): Promise<BatchResult> => {
+  const { accountId, maxObjectsInSet } = await getSession();
+  const result = emptyBatchResult();
+
+  for (let i = 0; i < ids.length; i += maxObjectsInSet) {
+    const batch = ids.slice(i, i + maxObjectsInSet);
+    try {
+      const responses = await jmapRequest([
+        [
+          "Email/set",
+          {
+            accountId,
+            update: Object.fromEntries(batch.map((id) => [id, patch])),
+          },
+          "set",
+        ],
+      ]);
+      const set = responseFor(responses, "set");
+      const updated = (set.updated ?? {}) as Record<string, unknown>;
+      const notUpdated = (set.notUpdated ?? {}) as Record<string, SetError>;
+
+      result.succeeded += Object.keys(updated).length;
+      for (const [id, error] of Object.entries(notUpdated)) {
+        if (error.type === "notFound") {
+          result.skipped++;
+          (result.notFound ??= []).push(id);
+        } else {
+          result.failed++;
+          (result.failedIds ??= []).push(id);
+          result.errors.push(
+            `${id}: ${error.type}${
+              error.description ? ` (${error.description})` : ""
+            }`,
+          );
+        }
+      }
+    } catch (e) {
+      result.failed += batch.length;
+      (result.failedIds ??= []).push(...batch);
+      result.errors.push(String(e));
+    }
+    console.log(
+      describe(result.succeeded, ids.length) +
+        (result.skipped > 0 ? ` (${result.skipped} already gone)` : ""),
+    );
+  }
+
+  if (result.errors.length > 0) {
+    console.log(`\nWarnings: ${result.errors.length} issues occurred`);
+  }
+
+  return result;
+};
+
+const resolveMailboxId = async (
+  folder: string,
+): Promise<{ id: string; label: string }> => {
+  const mailboxes = await listMailboxes();
+  const lower = folder.toLowerCase();
+  const match = mailboxes.find((m) => m.role === lower) ??
+    mailboxes.find((m) => mailboxPath(mailboxes, m).toLowerCase() === lower);
+  if (!match) {
+    throw new Error(`JMAP mailbox '${folder}' not found`);
+  }
+  return { id: match.id, label: mailboxPath(mailboxes, match) };
+};
+
+export const batchMoveToFolder = async (
+  ids: string[],
+  folder: string,
+): Promise<BatchResult> => {
+  const target = await resolveMailboxId(folder);
+  return batchUpdate(
+    ids,
+    { mailboxIds: { [target.id]: true } },
+    (processed, total) =>
+      `Moved ${processed}/${total} emails to ${target.label}`,
+  );
+};
+
+export const batchMoveToTrash = (ids: string[]): Promise<BatchResult> =>
+  batchMoveToFolder(ids, "trash");
+
+export const batchArchive = (ids: string[]): Promise<BatchResult> =>
+  batchMoveToFolder(ids, "archive");
+
+export const batchSetReadStatus = (
+  ids: string[],
+  read: boolean,
+): Promise<BatchResult> =>
+  batchUpdate(
+    ids,
+    { "keywords/$seen": read ? true : null },
+    (processed, total) =>
+      `Marked ${processed}/${total} emails as ${read ? "read" : "unread"}`,
+  );
+
+// JMAP keywords follow IMAP atom rules and are case-insensitive.
+const toKeyword = (category: string): string =>
+  category.toLowerCase().replace(/[\s(){}%*"\\\]\[/~]/g, "_");
+
+export const batchCategorize = (
+  ids: string[],
+  category: string,
+): Promise<BatchResult> =>
+  batchUpdate(
+    ids,
+    { [`keywords/${toKeyword(category)}`]: true },
+    (processed, total) =>
+      `Categorized ${processed}/${total} emails as '${category}'`,
+  );
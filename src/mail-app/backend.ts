@@ -0,0 +1,52 @@
+import type { MailBackend } from "../shared/backend.ts";
+import type { UnifiedEmail } from "../shared/types.ts";
+import {
+  batchMoveToFolder,
+  batchMoveToTrash,
+  batchRestore,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+  organizeInboxEmails,
+} from "./emails.ts";
+import { env } from "../shared/config.ts";
+
+const getArchiveMailbox = (): string => env("MAIL_APP_ARCHIVE") ?? "Archive";
+
+const toMessageRefs = (emails: UnifiedEmail[]) =>
+  emails.map((e) => ({
+    account: e.account!,
+    mailbox: e.mailbox!,
+    id: e.id,
+    messageId: e.messageId,
+  }));
+
+export const mailAppBackend: MailBackend = {
+  name: "mail-app",
+  displayName: "Mail.app (AppleScript)",
+  capabilities: new Set([
+    "trash",
+    "archive",
+    "move",
+    "mark-read",
+    "undo",
+    "tidy",
+  ]),
+  fetchGitHubEmails,
+  moveToTrash: (emails) => batchMoveToTrash(toMessageRefs(emails)),
+  archive: (emails) =>
+    batchMoveToFolder(toMessageRefs(emails), getArchiveMailbox()),
+  moveToFolder: (emails, folder) =>
+    batchMoveToFolder(toMessageRefs(emails), folder),
+  setReadStatus: (emails, read) =>
+    batchSetReadStatus(toMessageRefs(emails), read),
+  restore: (emails, action) =>
+    batchRestore(
+      emails.map((e) => ({ ...e, account: e.account ?? "" })),
+      action.kind === "archive"
+        ? getArchiveMailbox()
+        : action.kind === "move"
+        ? action.folder
+        : undefined,
+    ),
+  tidyInbox: organizeInboxEmails,
+};
@@ -1,5 +1,9 @@
 import { parsePrFromSubject } from "../shared/parse-subject.ts";
+import { applyGitHubHeaders } from "../shared/github-headers.ts";
+import { getGitHubHosts } from "../shared/github-hosts.ts";
+import { bodyDetails } from "../shared/email-body.ts";
 import type { MailAppEmail } from "../shared/types.ts";
+import { type BatchResult, emptyBatchResult } from "../shared/backend.ts";
 
 export type { MailAppEmail as GitHubEmail };
 
@@ -30,6 +34,12 @@ const runAppleScript = async (
   }
 };
 
+// "sender contains "github.com" or sender contains "ghe.acme.com""
+const githubSenderFilter = (): string =>
+  getGitHubHosts()
+    .map((h) => `sender contains "${escapeForAppleScript(h.host)}"`)
+    .join(" or ");
+
 const escapeForAppleScript = (str: string): string =>
   str.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
 
@@ -73,13 +83,31 @@ export const findGitHubMailboxes = async (): Promise<
     });
 };
 
+// Messages without a header make the lookup fail, hence the try blocks. Body
+// lines are joined with U+2028 so each message stays on one output line.
+const GITHUB_DETAILS_SCRIPT = `
+          set msgReason to ""
+          try
+            set msgReason to content of (first header of msg whose name is "X-GitHub-Reason")
+          end try
+          set msgListId to ""
+          try
+            set msgListId to content of (first header of msg whose name is "List-ID")
+          end try
+          set msgBody to ""
+          try
+            set AppleScript's text item delimiters to (character id 8232)
+            set msgBody to (paragraphs of (content of msg)) as text
+            set AppleScript's text item delimiters to ""
+          end try`;
+
 const fetchInboxEmails = async (): Promise<MailAppEmail[]> => {
   console.log("Scanning mailbox: Inbox");
 
   const script = `
     set output to ""
     tell application "Mail"
-      set msgs to messages of inbox whose sender contains "github.com"
+      set msgs to messages of inbox whose ${githubSenderFilter()}
       repeat with msg in msgs
         try
           set msgId to id of msg
@@ -87,6 +115,7 @@ const fetchInboxEmails = async (): Promise<MailAppEmail[]> => {
           set msgSubject to subject of msg
           set msgMbox to name of mailbox of msg
           set msgAcct to name of account of mailbox of msg
+${GITHUB_DETAILS_SCRIPT}
           set msgDate to date received of msg
           set y to year of msgDate
           set m to (month of msgDate as integer)
@@ -94,7 +123,7 @@ const fetchInboxEmails = async (): Promise<MailAppEmail[]> => {
           set h to hours of msgDate
           set min to minutes of msgDate
           set isoDate to (y as string) & "-" & (text -2 thru -1 of ("0" & m)) & "-" & (text -2 thru -1 of ("0" & d)) & "T" & (text -2 thru -1 of ("0" & h)) & ":" & (text -2 thru -1 of ("0" & min)) & ":00"
-          set output to output & msgId & "|||" & msgMessageId & "|||" & msgSubject & "|||" & isoDate & "|||" & msgAcct & "|||" & msgMbox & "
+          set output to output & msgId & "|||" & msgMessageId & "|||" & msgSubject & "|||" & isoDate & "|||" & msgAcct & "|||" & msgMbox & "|||" & msgReason & "|||" & msgListId & "|||" & msgBody & "
 "
         end try
       end repeat
@@ -112,10 +141,20 @@ const fetchInboxEmails = async (): Promise<MailAppEmail[]> => {
     for (const line of lines) {
       const parts = line.split("|||");
       if (parts.length >= 6) {
-        const [id, messageId, subject, dateReceived, account, mailbox] = parts;
+        const [
+          id,
+          messageId,
+          subject,
+          dateReceived,
+          account,
+          mailbox,
+          reason,
+          listId,
+          ...body
+        ] = parts;
         const { repo, prNumber } = parsePrFromSubject(subject);
 
-        emails.push({
+        emails.push(applyGitHubHeaders({
           id: id.trim(),
           messageId: messageId.trim(),
           subject: subject.trim(),
@@ -124,7 +163,8 @@ const fetchInboxEmails = async (): Promise<MailAppEmail[]> => {
           prNumber,
           mailbox: mailbox.trim(),
           account: account.trim(),
-        });
+          ...(body.length > 0 ? bodyDetails(body.join("|||")) : {}),
+        }, { reason, listId, messageId }));
       }
     }
 
@@ -146,11 +186,12 @@ const fetchMailboxEmails = async (
     tell application "Mail"
       set acct to account "${escapeForAppleScript(account)}"
       set mbox to mailbox "${escapeForAppleScript(mailbox)}" of acct
-      set msgs to messages of mbox whose sender contains "github.com"
+      set msgs to messages of mbox whose ${githubSenderFilter()}
       repeat with msg in msgs
         set msgId to id of msg
         set msgMessageId to message id of msg
         set msgSubject to subject of msg
+${GITHUB_DETAILS_SCRIPT}
         set msgDate to date received of msg
         set y to year of msgDate
         set m to (month of msgDate as integer)
@@ -158,7 +199,7 @@ const fetchMailboxEmails = async (
         set h to hours of msgDate
         set min to minutes of msgDate
         set isoDate to (y as string) & "-" & (text -2 thru -1 of ("0" & m)) & "-" & (text -2 thru -1 of ("0" & d)) & "T" & (text -2 thru -1 of ("0" & h)) & ":" & (text -2 thru -1 of ("0" & min)) & ":00"
-        set output to output & msgId & "|||" & msgMessageId & "|||" & msgSubject & "|||" & isoDate & "
+        set output to output & msgId & "|||" & msgMessageId & "|||" & msgSubject & "|||" & isoDate & "|||" & msgReason & "|||" & msgListId & "|||" & msgBody & "
 "
       end repeat
     end tell
@@ -175,10 +216,11 @@ const fetchMailboxEmails = async (
     for (const line of lines) {
       const parts = line.split("|||");
       if (parts.length >= 4) {
-        const [id, messageId, subject, dateReceived] = parts;
+        const [id, messageId, subject, dateReceived, reason, listId, ...body] =
+          parts;
         const { repo, prNumber } = parsePrFromSubject(subject);
 
-        emails.push({
+        emails.push(applyGitHubHeaders({
           id: id.trim(),
           messageId: messageId.trim(),
           subject: subject.trim(),
@@ -187,7 +229,8 @@ const fetchMailboxEmails = async (
           prNumber,
           mailbox,
           account,
-        });
+          ...(body.length > 0 ? bodyDetails(body.join("|||")) : {}),
+        }, { reason, listId, messageId }));
       }
     }
 
@@ -270,15 +313,10 @@ export const moveToTrash = async (
   await runAppleScript(script);
 };
 
-type BatchMoveResult = {
-  succeeded: number;
-  failed: number;
-  errors: string[];
-};
-
-export const batchMarkAsUnread = async (
+export const batchSetReadStatus = async (
   emails: Array<{ account: string; mailbox: string; id: string }>,
-): Promise<BatchMoveResult> => {
+  read: boolean,
+): Promise<BatchResult> => {
   const byMailbox = new Map<string, typeof emails>();
 
   for (const email of emails) {
@@ -289,7 +327,8 @@ export const batchMarkAsUnread = async (
   }
 
   const total = emails.length;
-  const result: BatchMoveResult = { succeeded: 0, failed: 0, errors: [] };
+  const result = emptyBatchResult();
+  const label = read ? "read" : "unread";
 
   for (const [key, mailboxEmails] of byMailbox.entries()) {
     const [account, mailbox] = key.split("|||");
@@ -307,7 +346,7 @@ export const batchMarkAsUnread = async (
             set candidates to (messages of mbox whose id is targetId)
             if (count of candidates) > 0 then
               set msg to item 1 of candidates
-              set read status of msg to false
+              set read status of msg to ${read}
               set markedCount to markedCount + 1
             end if
           on error
@@ -324,13 +363,17 @@ export const batchMarkAsUnread = async (
       const expectedCount = mailboxEmails.length;
       if (markedCount < expectedCount) {
         result.failed += expectedCount - markedCount;
+        (result.failedIds ??= []).push(
+          ...mailboxEmails.map((email) => email.id),
+        );
         result.errors.push(
           `${mailbox}: expected ${expectedCount}, marked ${markedCount}`,
         );
       }
-      console.log(`Marked ${result.succeeded}/${total} emails as unread`);
+      console.log(`Marked ${result.succeeded}/${total} emails as ${label}`);
     } catch (e) {
       result.failed += mailboxEmails.length;
+      (result.failedIds ??= []).push(...mailboxEmails.map((email) => email.id));
       result.errors.push(`${mailbox}: ${e}`);
       console.log(`Error marking emails in ${mailbox}: ${e}`);
     }
@@ -766,11 +809,9 @@ type BatchMoveInput = {
   messageId?: string;
 };
 
-type BatchMoveResultWithSkipped = BatchMoveResult & { skipped: number };
-
 export const batchMoveToTrash = async (
   emails: BatchMoveInput[],
-): Promise<BatchMoveResultWithSkipped> => {
+): Promise<BatchResult> => {
   const byMailbox = new Map<string, BatchMoveInput[]>();
 
   for (const email of emails) {
@@ -781,12 +822,7 @@ export const batchMoveToTrash = async (
   }
 
   const total = emails.length;
-  const result: BatchMoveResultWithSkipped = {
-    succeeded: 0,
-    failed: 0,
-    skipped: 0,
-    errors: [],
-  };
+  const result = emptyBatchResult();
 
   for (const [key, mailboxEmails] of byMailbox.entries()) {
     const [account, mailbox] = key.split("|||");
@@ -862,6 +898,9 @@ export const batchMoveToTrash = async (
       const accounted = deletedCount + skippedCount;
       if (accounted < expectedCount) {
         result.failed += expectedCount - accounted;
+        (result.failedIds ??= []).push(
+          ...mailboxEmails.map((email) => email.id),
+        );
         result.errors.push(
           `${mailbox}: expected ${expectedCount}, deleted ${deletedCount}, skipped ${skippedCount}`,
         );
@@ -872,6 +911,7 @@ export const batchMoveToTrash = async (
       );
     } catch (e) {
       result.failed += mailboxEmails.length;
+      (result.failedIds ??= []).push(...mailboxEmails.map((email) => email.id));
       result.errors.push(`${mailbox}: ${e}`);
       console.log(`Error moving emails from ${mailbox}: ${e}`);
     }
@@ -885,3 +925,162 @@ export const batchMoveToTrash = async (
 
   return result;
 };
+
+export const batchMoveToFolder = async (
+  emails: Array<{ account: string; mailbox: string; id: string }>,
+  folder: string,
+): Promise<BatchResult> => {
+  const byMailbox = new Map<string, typeof emails>();
+
+  for (const email of emails) {
+    const key = `${email.account}|||${email.mailbox}`;
+    const existing = byMailbox.get(key) ?? [];
+    existing.push(email);
+    byMailbox.set(key, existing);
+  }
+
+  const total = emails.length;
+  const result = emptyBatchResult();
+
+  for (const [key, mailboxEmails] of byMailbox.entries()) {
+    const [account, mailbox] = key.split("|||");
+
+    const ids = mailboxEmails.map((e) => e.id).join(", ");
+
+    const script = `
+      set movedCount to 0
+      tell application "Mail"
+        set acct to account "${escapeForAppleScript(account)}"
+        set mbox to mailbox "${escapeForAppleScript(mailbox)}" of acct
+        set targetMbox to mailbox "${escapeForAppleScript(folder)}" of acct
+        set targetIds to {${ids}}
+        repeat with targetId in targetIds
+          try
+            set candidates to (messages of mbox whose id is targetId)
+            if (count of candidates) > 0 then
+              set msg to item 1 of candidates
+              move msg to targetMbox
+              set movedCount to movedCount + 1
+            end if
+          on error
+          end try
+        end repeat
+      end tell
+      return movedCount
+    `;
+
+    try {
+      const countStr = await runAppleScript(script);
+      const movedCount = parseInt(countStr, 10) || 0;
+      result.succeeded += movedCount;
+      const expectedCount = mailboxEmails.length;
+      if (movedCount < expectedCount) {
+        result.failed += expectedCount - movedCount;
+        (result.failedIds ??= []).push(
+          ...mailboxEmails.map((email) => email.id),
+        );
+        result.errors.push(
+          `${mailbox}: expected ${expectedCount}, moved ${movedCount}`,
+        );
+      }
+      console.log(`Moved ${result.succeeded}/${total} emails to ${folder}`);
+    } catch (e) {
+      result.failed += mailboxEmails.length;
+      (result.failedIds ??= []).push(...mailboxEmails.map((email) => email.id));
+      result.errors.push(`${mailbox}: ${e}`);
+      console.log(`Error moving emails from ${mailbox}: ${e}`);
+    }
+  }
+
+  if (result.errors.length > 0) {
+    console.log(
+      `\nWarnings: ${result.errors.length} issues occurred`,
+    );
+  }
+
+  return result;
+};
+
+// Finds each message by Message-ID in the trash (or the given mailbox) and
+// moves it back to the mailbox it came from.
+export const batchRestore = async (
+  items: Array<{
+    account: string;
+    sourceFolder: string;
+    id: string;
+    messageId?: string;
+  }>,
+  fromMailbox?: string,
+): Promise<BatchResult> => {
+  const result = emptyBatchResult();
+  const byTarget = new Map<string, typeof items>();
+
+  for (const item of items) {
+    if (!item.messageId) {
+      result.skipped++;
+      (result.notFound ??= []).push(item.id);
+      continue;
+    }
+    const key = `${item.account}|||${item.sourceFolder}`;
+    byTarget.set(key, [...byTarget.get(key) ?? [], item]);
+  }
+
+  const fromScript = fromMailbox
+    ? `set fromMbox to mailbox "${escapeForAppleScript(fromMailbox)}" of acct`
+    : `set fromMbox to missing value
+        try
+          set fromMbox to mailbox "Deleted Items" of acct
+        end try
+        if fromMbox is missing value then
+          set fromMbox to mailbox "Trash" of acct
+        end if`;
+
+  for (const [key, targetItems] of byTarget.entries()) {
+    const [account, mailbox] = key.split("|||");
+    const msgIdLiterals = targetItems
+      .map((e) => `"${escapeForAppleScript(e.messageId!)}"`)
+      .join(", ");
+
+    const script = `
+      set restored to {}
+      tell application "Mail"
+        set acct to account "${escapeForAppleScript(account)}"
+        set targetMbox to mailbox "${escapeForAppleScript(mailbox)}" of acct
+        ${fromScript}
+        repeat with targetMsgId in {${msgIdLiterals}}
+          try
+            set candidates to (messages of fromMbox whose message id is (targetMsgId as string))
+            if (count of candidates) > 0 then
+              move item 1 of candidates to targetMbox
+              set end of restored to (targetMsgId as string)
+            end if
+          end try
+        end repeat
+      end tell
+      set AppleScript's text item delimiters to linefeed
+      return restored as string
+    `;
+
+    try {
+      const out = await runAppleScript(script);
+      const restored = new Set(out.split("\n").filter(Boolean));
+      for (const item of targetItems) {
+        if (restored.has(item.messageId!)) {
+          result.succeeded++;
+        } else {
+          result.skipped++;
+          (result.notFound ??= []).push(item.id);
+        }
+      }
+      console.log(
+        `Restored ${result.succeeded}/${items.length} emails to ${mailbox}`,
+      );
+    } catch (e) {
+      result.failed += targetItems.length;
+      (result.failedIds ??= []).push(...targetItems.map((email) => email.id));
+      result.errors.push(`${mailbox}: ${e}`);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,21 @@
+import type { MailBackend } from "../shared/backend.ts";
+import {
+  batchArchive,
+  batchMoveToFolder,
+  batchMoveToTrash,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+} from "./emails.ts";
+
+export const maildirBackend: MailBackend = {
+  name: "maildir",
+  displayName: "Local Maildir",
+  capabilities: new Set(["trash", "archive", "move", "mark-read"]),
+  fetchGitHubEmails,
+  moveToTrash: (emails) => batchMoveToTrash(emails.map((e) => e.id)),
+  archive: (emails) => batchArchive(emails.map((e) => e.id)),
+  moveToFolder: (emails, folder) =>
+    batchMoveToFolder(emails.map((e) => e.id), folder),
+  setReadStatus: (emails, read) =>
+    batchSetReadStatus(emails.map((e) => e.id), read),
+};
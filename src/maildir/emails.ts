@@ -0,0 +1,299 @@
+import { ensureDir } from "@std/fs/ensure-dir";
+import { basename } from "@std/path/basename";
+import { dirname } from "@std/path/dirname";
+import { join } from "@std/path/join";
+import { parsePrFromSubject } from "../shared/parse-subject.ts";
+import {
+  applyGitHubHeaders,
+  headersFromRecord,
+} from "../shared/github-headers.ts";
+import { isGitHubSender } from "../shared/github-hosts.ts";
+import {
+  extractTextBody,
+  headerDateToIso,
+  splitMessage,
+} from "../shared/mail-headers.ts";
+import { bodyDetails } from "../shared/email-body.ts";
+import { type BatchResult, emptyBatchResult } from "../shared/backend.ts";
+import type { MaildirEmail } from "../shared/types.ts";
+import { env } from "../shared/config.ts";
+
+export type { MaildirEmail as GitHubEmail };
+
+const HEADER_READ_BYTES = 64 * 1024;
+
+type Maildir = {
+  name: string;
+  path: string;
+};
+
+export const expandHome = (path: string): string => {
+  if (path !== "~" && !path.startsWith("~/")) return path;
+  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? ".";
+  return join(home, path.slice(1));
+};
+
+const getMaildirRoot = (): string => {
+  const root = env("MAILDIR_ROOT");
+  if (!root) {
+    throw new Error("Maildir backend requires MAILDIR_ROOT to be set.");
+  }
+  return expandHome(root);
+};
+
+const isDirectory = async (path: string): Promise<boolean> => {
+  try {
+    return (await Deno.stat(path)).isDirectory;
+  } catch {
+    return false;
+  }
+};
+
+const isMaildir = (path: string): Promise<boolean> =>
+  isDirectory(join(path, "cur"));
+
+// Supports both Maildir++ (.github.repo) and nested (github/repo) layouts.
+const listMaildirs = async (root: string): Promise<Maildir[]> => {
+  const found: Maildir[] = [];
+
+  const walk = async (dir: string, prefix: string): Promise<void> => {
+    for await (const entry of Deno.readDir(dir)) {
+      if (!entry.isDirectory) continue;
+      if (["cur", "new", "tmp"].includes(entry.name)) continue;
+      const path = join(dir, entry.name);
+      const name = prefix === "" && entry.name.startsWith(".")
+        ? entry.name.slice(1).split(".").join("/")
+        : `${prefix}${entry.name}`;
+      if (await isMaildir(path)) {
+        found.push({ name, path });
+      }
+      if (!entry.name.startsWith(".")) {
+        await walk(path, `${name}/`);
+      }
+    }
+  };
+
+  if (await isMaildir(root)) {
+    found.push({ name: "INBOX", path: root });
+  }
+  await walk(root, "");
+
+  return found;
+};
+
+const findGitHubMaildirs = (
+  maildirs: Maildir[],
+): Array<Maildir & { displayName: string }> => {
+  const githubParent = maildirs.find((m) => m.name.toLowerCase() === "github");
+  const children = maildirs
+    .filter((m) => {
+      const lower = m.name.toLowerCase();
+      return lower.startsWith("github/") && !lower.slice(7).includes("/");
+    })
+    .map((m) => ({ ...m, displayName: m.name.slice(7) }));
+
+  if (children.length > 0) return children;
+  if (githubParent) return [{ ...githubParent, displayName: "github" }];
+
+  console.log("No 'github' folder found under MAILDIR_ROOT.");
+  return [];
+};
+
+const readHeaderBlock = async (path: string): Promise<string> => {
+  const file = await Deno.open(path, { read: true });
+  try {
+    const buf = new Uint8Array(HEADER_READ_BYTES);
+    let total = 0;
+    while (total < buf.length) {
+      const n = await file.read(buf.subarray(total));
+      if (n === null) break;
+      total += n;
+    }
+    return new TextDecoder().decode(buf.subarray(0, total));
+  } finally {
+    file.close();
+  }
+};
+
+const findEmailsInMaildir = async (
+  maildir: Maildir,
+): Promise<MaildirEmail[]> => {
+  const emails: MaildirEmail[] = [];
+
+  for (const sub of ["new", "cur"]) {
+    const dir = join(maildir.path, sub);
+    if (!(await isDirectory(dir))) continue;
+
+    for await (const entry of Deno.readDir(dir)) {
+      if (!entry.isFile) continue;
+      const path = join(dir, entry.name);
+      const { headers } = splitMessage(await readHeaderBlock(path));
+      if (!isGitHubSender(headers["from"])) continue;
+      const { body } = splitMessage(await Deno.readTextFile(path));
+
+      const subject = headers["subject"] ?? "";
+      const { repo, prNumber } = parsePrFromSubject(subject);
+      const receivedDateTime = headerDateToIso(headers["date"]) ??
+        (await Deno.stat(path)).mtime?.toISOString() ?? "";
+
+      emails.push(applyGitHubHeaders({
+        id: path,
+        messageId: headers["message-id"],
+        subject,
+        receivedDateTime,
+        repo,
+        prNumber,
+        mailbox: maildir.name,
+        ...bodyDetails(extractTextBody(headers, body)),
+      }, headersFromRecord(headers)));
+    }
+  }
+
+  return emails;
+};
+
+export const fetchGitHubEmails = async (
+  folderName?: string,
+): Promise<MaildirEmail[]> => {
+  const maildirs = await listMaildirs(getMaildirRoot());
+  const allEmails: MaildirEmail[] = [];
+  const scanInbox = folderName === undefined ||
+    folderName?.toLowerCase() === "inbox";
+  const scanGithub = folderName === undefined ||
+    (folderName !== undefined && folderName.toLowerCase() !== "inbox");
+
+  if (scanGithub) {
+    const folders = findGitHubMaildirs(maildirs);
+    const targetFolders = folderName
+      ? folders.filter((f) =>
+        f.displayName.toLowerCase() === folderName.toLowerCase()
+      )
+      : folders;
+
+    if (targetFolders.length === 0 && folderName) {
+      console.log(`No folder named '${folderName}' found under github/`);
+    }
+
+    for (const folder of targetFolders) {
+      console.log(`Scanning folder: github/${folder.displayName}`);
+      allEmails.push(...await findEmailsInMaildir(folder));
+    }
+  }
+
+  const inbox = maildirs.find((m) => m.name.toLowerCase() === "inbox");
+  if (scanInbox && inbox) {
+    console.log("Scanning folder: INBOX");
+    allEmails.push(...await findEmailsInMaildir(inbox));
+  }
+
+  return allEmails;
+};
+
+const parseFlags = (fileName: string): { base: string; flags: string } => {
+  const idx = fileName.indexOf(":2,");
+  return idx === -1
+    ? { base: fileName, flags: "" }
+    : { base: fileName.slice(0, idx), flags: fileName.slice(idx + 3) };
+};
+
+const withFlags = (base: string, flags: Iterable<string>): string =>
+  `${base}:2,${[...new Set(flags)].sort().join("")}`;
+
+const ensureMaildir = async (path: string): Promise<void> => {
+  for (const sub of ["cur", "new", "tmp"]) {
+    await ensureDir(join(path, sub));
+  }
+};
+
+const resolveMaildirPath = async (
+  root: string,
+  folder: string,
+): Promise<string> => {
+  const maildirs = await listMaildirs(root);
+  const existing = maildirs.find((m) =>
+    m.name.toLowerCase() === folder.toLowerCase()
+  );
+  if (existing) return existing.path;
+
+  const usesMaildirPlusPlus = maildirs.some((m) =>
+    basename(m.path).startsWith(".")
+  );
+  const path = usesMaildirPlusPlus
+    ? join(root, `.${folder.split("/").join(".")}`)
+    : join(root, ...folder.split("/"));
+  await ensureMaildir(path);
+  return path;
+};
+
+const renameAll = async (
+  paths: string[],
+  target: (path: string) => string,
+  describe: (processed: number, total: number) => string,
+): Promise<BatchResult> => {
+  const result = emptyBatchResult();
+
+  for (const path of paths) {
+    try {
+      await Deno.rename(path, target(path));
+      result.succeeded++;
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        result.skipped++;
+        (result.notFound ??= []).push(path);
+      } else {
+        result.failed++;
+        (result.failedIds ??= []).push(path);
+        result.errors.push(`${path}: ${e}`);
+      }
+    }
+  }
+
+  console.log(
+    describe(result.succeeded, paths.length) +
+      (result.skipped > 0 ? ` (${result.skipped} already gone)` : ""),
+  );
+
+  if (result.errors.length > 0) {
+    console.log(`\nWarnings: ${result.errors.length} issues occurred`);
+  }
+
+  return result;
+};
+
+export const batchMoveToFolder = async (
+  paths: string[],
+  folder: string,
+): Promise<BatchResult> => {
+  const targetDir = await resolveMaildirPath(getMaildirRoot(), folder);
+  return renameAll(
+    paths,
+    (path) => {
+      const { base, flags } = parseFlags(basename(path));
+      return join(targetDir, "cur", withFlags(base, flags));
+    },
+    (processed, total) => `Moved ${processed}/${total} emails to ${folder}`,
+  );
+};
+
+export const batchMoveToTrash = (paths: string[]): Promise<BatchResult> =>
+  batchMoveToFolder(paths, env("MAILDIR_TRASH") ?? "Trash");
+
+export const batchArchive = (paths: string[]): Promise<BatchResult> =>
+  batchMoveToFolder(paths, env("MAILDIR_ARCHIVE") ?? "Archive");
+
+export const batchSetReadStatus = (
+  paths: string[],
+  read: boolean,
+): Promise<BatchResult> =>
+  renameAll(
+    paths,
+    (path) => {
+      const { base, flags } = parseFlags(basename(path));
+      const next = new Set(flags);
+      if (read) next.add("S");
+      else next.delete("S");
+      return join(dirname(dirname(path)), "cur", withFlags(base, next));
+    },
+    (processed, total) =>
+      `Marked ${processed}/${total} emails as ${read ? "read" : "unread"}`,
+  );
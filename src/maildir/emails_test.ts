@@ -0,0 +1,104 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path/join";
+import {
+  batchMoveToTrash,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+} from "./emails.ts";
+
+const message = (from: string, subject: string) =>
+  `From: ${from}\r\nSubject: ${subject}\r\nDate: Wed, 01 May 2024 10:00:00 +0000\r\n\r\nBody\r\n`;
+
+const GITHUB = "GitHub <notifications@github.com>";
+
+// Builds a Maildir tree under a temp MAILDIR_ROOT from "folder/sub/file" paths.
+const withMaildir = async (
+  files: Record<string, string>,
+  fn: (root: string) => Promise<void>,
+) => {
+  const root = await Deno.makeTempDir();
+  const dirs = new Set(
+    Object.keys(files).map((p) => p.split("/").slice(0, -2)),
+  );
+  for (const dir of [...dirs].map((d) => d.join("/"))) {
+    for (const sub of ["cur", "new", "tmp"]) {
+      await Deno.mkdir(join(root, dir, sub), { recursive: true });
+    }
+  }
+  for (const [path, text] of Object.entries(files)) {
+    await Deno.writeTextFile(join(root, path), text);
+  }
+  const saved = Deno.env.get("MAILDIR_ROOT");
+  Deno.env.set("MAILDIR_ROOT", root);
+  const { log } = console;
+  console.log = () => {};
+  try {
+    await fn(root);
+  } finally {
+    console.log = log;
+    if (saved === undefined) Deno.env.delete("MAILDIR_ROOT");
+    else Deno.env.set("MAILDIR_ROOT", saved);
+    await Deno.remove(root, { recursive: true });
+  }
+};
+
+const listDir = async (path: string): Promise<string[]> => {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(path)) names.push(entry.name);
+  return names.sort();
+};
+
+Deno.test("GitHub emails are found in nested and Maildir++ folders", async () => {
+  await withMaildir({
+    "new/1.host": message(GITHUB, "Re: [acme/widgets] Fix (PR #7)"),
+    "cur/2.host:2,S": message("bob@example.com", "Lunch?"),
+    "github/ci/cur/3.host:2,S": message(GITHUB, "[acme/widgets] Run failed"),
+    ".github.deps/new/4.host": message(GITHUB, "[acme/app] Bump x (PR #9)"),
+  }, async (root) => {
+    const emails = await fetchGitHubEmails();
+
+    assertEquals(
+      emails.map((e) => [e.mailbox, e.id.slice(root.length + 1)]).sort(),
+      [
+        ["INBOX", "new/1.host"],
+        ["github/ci", "github/ci/cur/3.host:2,S"],
+        ["github/deps", ".github.deps/new/4.host"],
+      ],
+    );
+    const inbox = emails.find((e) => e.mailbox === "INBOX")!;
+    assertEquals([inbox.repo, inbox.prNumber], ["acme/widgets", 7]);
+    assertEquals(inbox.receivedDateTime, "2024-05-01T10:00:00.000Z");
+  });
+});
+
+Deno.test("read status moves mail to cur and sets or clears only S", async () => {
+  await withMaildir({
+    "new/1.host": message(GITHUB, "one"),
+    "cur/2.host:2,FS": message(GITHUB, "two"),
+  }, async (root) => {
+    await batchSetReadStatus([join(root, "new/1.host")], true);
+    await batchSetReadStatus([join(root, "cur/2.host:2,FS")], false);
+
+    assertEquals(await listDir(join(root, "new")), []);
+    assertEquals(await listDir(join(root, "cur")), [
+      "1.host:2,S",
+      "2.host:2,F",
+    ]);
+  });
+});
+
+Deno.test("trash keeps flags and reports emails that are already gone", async () => {
+  await withMaildir({
+    "cur/1.host:2,FS": message(GITHUB, "one"),
+  }, async (root) => {
+    const gone = join(root, "cur/9.host:2,");
+    const result = await batchMoveToTrash([
+      join(root, "cur/1.host:2,FS"),
+      gone,
+    ]);
+
+    assertEquals([result.succeeded, result.skipped], [1, 1]);
+    assertEquals(result.notFound, [gone]);
+    assertEquals(await listDir(join(root, "Trash/cur")), ["1.host:2,FS"]);
+  });
+});
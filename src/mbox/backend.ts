@@ -0,0 +1,9 @@
+import type { MailBackend } from "../shared/backend.ts";
+import { fetchGitHubEmails } from "./emails.ts";
+
+export const mboxBackend: MailBackend = {
+  name: "mbox",
+  displayName: "Local mbox (read-only)",
+  capabilities: new Set(),
+  fetchGitHubEmails,
+};
@@ -0,0 +1,150 @@
+import { join } from "@std/path/join";
+import { expandHome } from "../maildir/emails.ts";
+import { parsePrFromSubject } from "../shared/parse-subject.ts";
+import {
+  applyGitHubHeaders,
+  headersFromRecord,
+} from "../shared/github-headers.ts";
+import { isGitHubSender } from "../shared/github-hosts.ts";
+import {
+  extractTextBody,
+  headerDateToIso,
+  splitMessage,
+} from "../shared/mail-headers.ts";
+import { bodyDetails } from "../shared/email-body.ts";
+import type { MboxEmail } from "../shared/types.ts";
+import { env } from "../shared/config.ts";
+
+export type { MboxEmail as GitHubEmail };
+
+type MboxFile = {
+  name: string;
+  displayName: string;
+  path: string;
+};
+
+const getMboxRoot = (): string => {
+  const root = env("MBOX_ROOT");
+  if (!root) {
+    throw new Error("mbox backend requires MBOX_ROOT to be set.");
+  }
+  return expandHome(root);
+};
+
+const statOrNull = async (path: string): Promise<Deno.FileInfo | null> => {
+  try {
+    return await Deno.stat(path);
+  } catch {
+    return null;
+  }
+};
+
+// mutt keeps folders as github/<name>, Thunderbird as github.sbd/<name>
+const findGitHubMboxes = async (root: string): Promise<MboxFile[]> => {
+  for (const dirName of ["github", "github.sbd"]) {
+    const dir = join(root, dirName);
+    const info = await statOrNull(dir);
+    if (!info?.isDirectory) continue;
+
+    const files: MboxFile[] = [];
+    for await (const entry of Deno.readDir(dir)) {
+      if (!entry.isFile || entry.name.endsWith(".msf")) continue;
+      const displayName = entry.name.replace(/\.mbox$/, "");
+      files.push({
+        name: `github/${displayName}`,
+        displayName,
+        path: join(dir, entry.name),
+      });
+    }
+    if (files.length > 0) return files;
+  }
+
+  const single = join(root, "github");
+  if ((await statOrNull(single))?.isFile) {
+    return [{ name: "github", displayName: "github", path: single }];
+  }
+
+  console.log("No 'github' mbox found under MBOX_ROOT.");
+  return [];
+};
+
+const findInboxMbox = async (root: string): Promise<MboxFile | null> => {
+  for await (const entry of Deno.readDir(root)) {
+    if (entry.isFile && entry.name.toLowerCase() === "inbox") {
+      return {
+        name: "INBOX",
+        displayName: "INBOX",
+        path: join(root, entry.name),
+      };
+    }
+  }
+  return null;
+};
+
+const splitMbox = (text: string): string[] =>
+  text
+    .split(/(?:^|\r?\n\r?\n)From [^\r\n]*\r?\n/)
+    .filter((message) => message.trim().length > 0);
+
+const findEmailsInMbox = async (mbox: MboxFile): Promise<MboxEmail[]> => {
+  const text = await Deno.readTextFile(mbox.path);
+  const emails: MboxEmail[] = [];
+
+  for (const [index, raw] of splitMbox(text).entries()) {
+    const { headers, body } = splitMessage(raw);
+    if (!isGitHubSender(headers["from"])) continue;
+
+    const subject = headers["subject"] ?? "";
+    const { repo, prNumber } = parsePrFromSubject(subject);
+
+    emails.push(applyGitHubHeaders({
+      id: `${mbox.path}#${index}`,
+      messageId: headers["message-id"],
+      subject,
+      receivedDateTime: headerDateToIso(headers["date"]) ?? "",
+      repo,
+      prNumber,
+      mailbox: mbox.name,
+      ...bodyDetails(extractTextBody(headers, body)),
+    }, headersFromRecord(headers)));
+  }
+
+  return emails;
+};
+
+export const fetchGitHubEmails = async (
+  folderName?: string,
+): Promise<MboxEmail[]> => {
+  const root = getMboxRoot();
+  const allEmails: MboxEmail[] = [];
+  const scanInbox = folderName === undefined ||
+    folderName?.toLowerCase() === "inbox";
+  const scanGithub = folderName === undefined ||
+    (folderName !== undefined && folderName.toLowerCase() !== "inbox");
+
+  if (scanGithub) {
+    const mboxes = await findGitHubMboxes(root);
+    const targetMboxes = folderName
+      ? mboxes.filter((m) =>
+        m.displayName.toLowerCase() === folderName.toLowerCase()
+      )
+      : mboxes;
+
+    if (targetMboxes.length === 0 && folderName) {
+      console.log(`No folder named '${folderName}' found under github/`);
+    }
+
+    for (const mbox of targetMboxes) {
+      console.log(`Scanning folder: github/${mbox.displayName}`);
+      allEmails.push(...await findEmailsInMbox(mbox));
+    }
+  }
+
+  const inbox = scanInbox ? await findInboxMbox(root) : null;
+  if (inbox) {
+    console.log("Scanning folder: INBOX");
+    allEmails.push(...await findEmailsInMbox(inbox));
+  }
+
+  return allEmails;
+};
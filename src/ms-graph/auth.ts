@@ -3,6 +3,7 @@ import {
   getAccessToken as getToken,
   type OAuthConfig,
 } from "../shared/oauth.ts";
+import { getConfig as getSettings } from "../shared/config.ts";
 
 const CLIENT_IDS: Record<string, string> = {
   "azure-cli": "04b07795-8ddb-461a-bbee-02f9e1bf7b46",
@@ -20,7 +21,7 @@ const REDIRECT_URIS: Record<string, string> = {
 
 const SCOPES = ["https://graph.microsoft.com/Mail.ReadWrite", "offline_access"];
 
-const getClientName = (): string => Deno.env.get("MS_CLIENT_ID") ?? "azure-cli";
+const getClientName = (): string => getSettings().msClientId.value;
 
 const getClientId = (): string => {
   const name = getClientName();
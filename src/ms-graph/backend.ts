@@ -0,0 +1,35 @@
+import type { MailBackend } from "../shared/backend.ts";
+import {
+  batchCategorize,
+  batchMoveToFolder,
+  batchMoveToTrash,
+  batchRestore,
+  batchSetReadStatus,
+  fetchGitHubEmails,
+  resolveFolderId,
+} from "./emails.ts";
+
+export const graphBackend: MailBackend = {
+  name: "graph",
+  displayName: "Microsoft Graph API",
+  capabilities: new Set([
+    "trash",
+    "archive",
+    "move",
+    "mark-read",
+    "categorize",
+    "undo",
+  ]),
+  fetchGitHubEmails,
+  moveToTrash: (emails) => batchMoveToTrash(emails.map((e) => e.id)),
+  archive: (emails) =>
+    batchMoveToFolder(emails.map((e) => e.id), "archive", "archive"),
+  moveToFolder: async (emails, folder) => {
+    const destinationId = await resolveFolderId(folder);
+    return batchMoveToFolder(emails.map((e) => e.id), destinationId, folder);
+  },
+  setReadStatus: (emails, read) =>
+    batchSetReadStatus(emails.map((e) => e.id), read),
+  categorize: (emails, category) => batchCategorize(emails, category),
+  restore: (emails) => batchRestore(emails),
+};
@@ -1,10 +1,31 @@
 import { getAccessToken } from "./auth.ts";
 import { parsePrFromSubject } from "../shared/parse-subject.ts";
-import type { GraphEmail } from "../shared/types.ts";
+import {
+  applyGitHubHeaders,
+  GITHUB_HEADER_NAMES,
+  type GitHubHeaders,
+} from "../shared/github-headers.ts";
+import { githubSenders } from "../shared/github-hosts.ts";
+import { bodyDetails } from "../shared/email-body.ts";
+import { stripHtml } from "../shared/mail-headers.ts";
+import {
+  type BatchResult,
+  emptyBatchResult,
+  mergeBatchResult,
+} from "../shared/backend.ts";
+import type { FetchOptions, GraphEmail } from "../shared/types.ts";
+import {
+  loadSyncStore,
+  saveSyncStore,
+  type SyncStore,
+} from "../shared/sync-state.ts";
 
 export type { GraphEmail as GitHubEmail };
 
 const GRAPH_BASE = "https://graph.microsoft.com/v1.0";
+const SYNC_FILE = "graph-sync.json";
+const DELTA_SELECT =
+  "id,subject,from,receivedDateTime,webLink,bodyPreview,body,categories,internetMessageHeaders";
 
 type MailFolder = {
   id: string;
@@ -25,6 +46,9 @@ type Message = {
   receivedDateTime: string;
   webLink: string;
   bodyPreview?: string;
+  body?: { contentType: string; content: string };
+  categories?: string[];
+  internetMessageHeaders?: { name: string; value: string }[];
 };
 
 type GraphResponse<T> = {
@@ -32,19 +56,61 @@ type GraphResponse<T> = {
   "@odata.nextLink"?: string;
 };
 
+type DeltaResponse = GraphResponse<Message & { "@removed"?: unknown }> & {
+  "@odata.deltaLink"?: string;
+};
+
+const MAX_RETRIES = 5;
+
+const isRetryable = (status: number): boolean =>
+  status === 429 || status >= 500;
+
+// Retry-After is in seconds; fall back to exponential backoff when absent.
+const retryDelayMs = (retryAfter: string | null, attempt: number): number => {
+  const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : 2 ** attempt * 1000;
+};
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+const graphRequest = async (
+  endpoint: string,
+  options: RequestInit = {},
+): Promise<Response> => {
+  for (let attempt = 0;; attempt++) {
+    const token = await getAccessToken();
+    const response = await fetch(`${GRAPH_BASE}${endpoint}`, {
+      ...options,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+    });
+
+    if (
+      response.ok || !isRetryable(response.status) || attempt >= MAX_RETRIES
+    ) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    const delay = retryDelayMs(response.headers.get("Retry-After"), attempt);
+    console.log(
+      `  Graph API returned ${response.status}, retrying in ${
+        delay / 1000
+      }s...`,
+    );
+    await sleep(delay);
+  }
+};
+
 const graphFetch = async <T>(
   endpoint: string,
   options: RequestInit = {},
 ): Promise<T> => {
-  const token = await getAccessToken();
-  const response = await fetch(`${GRAPH_BASE}${endpoint}`, {
-    ...options,
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-      ...options.headers,
-    },
-  });
+  const response = await graphRequest(endpoint, options);
 
   if (!response.ok) {
     const error = await response.text();
@@ -82,45 +148,133 @@ const findGitHubFolders = async (): Promise<MailFolder[]> => {
   return allFolders;
 };
 
-export const fetchGitHubEmails = async (
-  folderName?: string,
+const githubHeaders = (msg: Message): GitHubHeaders => {
+  const find = (name: (typeof GITHUB_HEADER_NAMES)[number]) =>
+    msg.internetMessageHeaders?.find((h) =>
+      h.name.toLowerCase() === name.toLowerCase()
+    )?.value;
+  return {
+    from: msg.from?.emailAddress.address,
+    reason: find("X-GitHub-Reason"),
+    listId: find("List-ID"),
+    messageId: find("Message-ID"),
+  };
+};
+
+const toGraphEmail = (msg: Message): GraphEmail => {
+  let { repo, prNumber } = parsePrFromSubject(msg.subject);
+  if (!prNumber && msg.bodyPreview) {
+    const fallback = parsePrFromSubject(
+      `[${repo ?? "unknown"}] ${msg.bodyPreview}`,
+    );
+    if (fallback.prNumber) {
+      prNumber = fallback.prNumber;
+      if (!repo && fallback.repo && fallback.repo !== "unknown") {
+        repo = fallback.repo;
+      }
+    }
+  }
+  return applyGitHubHeaders({
+    id: msg.id,
+    subject: msg.subject,
+    receivedDateTime: msg.receivedDateTime,
+    repo,
+    prNumber,
+    webLink: msg.webLink,
+    categories: msg.categories ?? [],
+    ...(msg.body
+      ? bodyDetails(
+        msg.body.contentType === "html"
+          ? stripHtml(msg.body.content)
+          : msg.body.content,
+      )
+      : {}),
+  }, githubHeaders(msg));
+};
+
+const isFromGitHub = (msg: Message): boolean =>
+  githubSenders().includes(msg.from?.emailAddress.address.toLowerCase() ?? "");
+
+const isExpiredDeltaToken = (e: unknown): boolean =>
+  e instanceof Error && /Graph API error: 410\b/.test(e.message);
+
+// Applies messages/delta changes on top of the stored index for one folder.
+const syncFolder = async (
+  folderId: string,
+  store: SyncStore<GraphEmail>,
+  fullSync: boolean,
 ): Promise<GraphEmail[]> => {
-  const emails: GraphEmail[] = [];
+  const previous = fullSync ? undefined : store.folders[folderId];
+  const index = new Map(Object.entries(previous?.emails ?? {}));
+  let endpoint: string | undefined = previous
+    ? previous.token.replace(GRAPH_BASE, "")
+    : `/me/mailFolders/${folderId}/messages/delta?$select=${DELTA_SELECT}`;
+  let deltaLink: string | undefined;
 
-  const fetchPage = async (endpoint: string): Promise<void> => {
-    const response = await graphFetch<GraphResponse<Message>>(endpoint);
+  try {
+    while (endpoint) {
+      const response: DeltaResponse = await graphFetch<DeltaResponse>(
+        endpoint,
+        {
+          headers: {
+            Prefer: 'odata.maxpagesize=100, outlook.body-content-type="text"',
+          },
+        },
+      );
 
-    for (const msg of response.value) {
-      let { repo, prNumber } = parsePrFromSubject(msg.subject);
-      if (!prNumber && msg.bodyPreview) {
-        const fallback = parsePrFromSubject(
-          `[${repo ?? "unknown"}] ${msg.bodyPreview}`,
-        );
-        if (fallback.prNumber) {
-          prNumber = fallback.prNumber;
-          if (!repo && fallback.repo && fallback.repo !== "unknown") {
-            repo = fallback.repo;
-          }
+      for (const msg of response.value) {
+        if (msg["@removed"] || !isFromGitHub(msg)) {
+          index.delete(msg.id);
+        } else {
+          index.set(msg.id, toGraphEmail(msg));
         }
       }
-      emails.push({
-        id: msg.id,
-        subject: msg.subject,
-        receivedDateTime: msg.receivedDateTime,
-        repo,
-        prNumber,
-        webLink: msg.webLink,
-      });
-    }
 
-    const next = response["@odata.nextLink"]?.replace(GRAPH_BASE, "");
-    if (next) {
-      await fetchPage(next);
+      endpoint = response["@odata.nextLink"]?.replace(GRAPH_BASE, "");
+      deltaLink = response["@odata.deltaLink"] ?? deltaLink;
     }
-  };
+  } catch (e) {
+    if (previous && isExpiredDeltaToken(e)) {
+      console.log("  Sync state expired, resyncing folder from scratch");
+      return syncFolder(folderId, store, true);
+    }
+    throw e;
+  }
+
+  if (deltaLink) {
+    store.folders[folderId] = {
+      token: deltaLink,
+      syncedAt: Date.now(),
+      emails: Object.fromEntries(index),
+    };
+  }
+
+  if (previous) {
+    const changed = index.size - Object.keys(previous.emails).length;
+    console.log(
+      `  ${index.size} GitHub emails (${
+        changed >= 0 ? "+" : ""
+      }${changed} since last sync)`,
+    );
+  }
+
+  return [...index.values()];
+};
+
+const withSource = (
+  emails: GraphEmail[],
+  folderId: string,
+  mailbox: string,
+): GraphEmail[] => emails.map((e) => ({ ...e, folderId, mailbox }));
+
+export const fetchGitHubEmails = async (
+  folderName?: string,
+  options: FetchOptions = {},
+): Promise<GraphEmail[]> => {
+  const emails: GraphEmail[] = [];
+  const store = await loadSyncStore<GraphEmail>(SYNC_FILE);
+  const fullSync = options.fullSync ?? false;
 
-  const msgFilter =
-    `$top=100&$select=id,subject,from,receivedDateTime,webLink,bodyPreview&$filter=from/emailAddress/address eq 'notifications@github.com'`;
   const scanInbox = folderName === undefined ||
     folderName?.toLowerCase() === "inbox";
   const scanGithub = folderName === undefined ||
@@ -140,15 +294,21 @@ export const fetchGitHubEmails = async (
 
     for (const folder of targetFolders) {
       console.log(`Scanning folder: github/${folder.displayName}`);
-      await fetchPage(`/me/mailFolders/${folder.id}/messages?${msgFilter}`);
+      const synced = await syncFolder(folder.id, store, fullSync);
+      emails.push(
+        ...withSource(synced, folder.id, `github/${folder.displayName}`),
+      );
     }
   }
 
   if (scanInbox) {
     console.log("Scanning folder: Inbox");
-    await fetchPage(`/me/mailFolders/inbox/messages?${msgFilter}`);
+    const synced = await syncFolder("inbox", store, fullSync);
+    emails.push(...withSource(synced, "inbox", "Inbox"));
   }
 
+  await saveSyncStore(SYNC_FILE, store);
+
   return emails;
 };
 
@@ -161,45 +321,226 @@ export const moveToTrash = async (messageId: string): Promise<void> => {
   });
 };
 
-export const batchMoveToTrash = async (messageIds: string[]): Promise<void> => {
-  const batchSize = 20;
-  const batches = Array.from(
-    { length: Math.ceil(messageIds.length / batchSize) },
-    (_, i) => messageIds.slice(i * batchSize, (i + 1) * batchSize),
-  );
+const WELL_KNOWN_FOLDERS = [
+  "inbox",
+  "archive",
+  "deleteditems",
+  "junkemail",
+  "drafts",
+  "sentitems",
+];
 
-  const processBatch = async (
-    batch: string[],
-    batchIndex: number,
-  ): Promise<void> => {
-    const requests = batch.map((id, idx) => ({
+export const resolveFolderId = async (path: string): Promise<string> => {
+  if (WELL_KNOWN_FOLDERS.includes(path.toLowerCase())) {
+    return path.toLowerCase();
+  }
+
+  const segments = path.split("/").filter(Boolean);
+  let parentId: string | null = null;
+
+  for (const segment of segments) {
+    const endpoint: string = parentId
+      ? `/me/mailFolders/${parentId}/childFolders?$top=100`
+      : "/me/mailFolders?$top=100";
+    const folders = await graphFetch<GraphResponse<MailFolder>>(endpoint);
+    const match = folders.value.find(
+      (f) => f.displayName.toLowerCase() === segment.toLowerCase(),
+    );
+    if (!match) {
+      throw new Error(`Mail folder '${path}' not found`);
+    }
+    parentId = match.id;
+  }
+
+  if (!parentId) {
+    throw new Error(`Invalid mail folder '${path}'`);
+  }
+  return parentId;
+};
+
+type BatchSubRequest = {
+  method: string;
+  url: string;
+  body: Record<string, unknown>;
+};
+
+type BatchSubResponse = {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: { id?: string; error?: { code?: string; message?: string } };
+};
+
+const subResponseError = (messageId: string, sub: BatchSubResponse): string =>
+  `${messageId}: ${sub.status} ${
+    sub.body?.error?.message ?? sub.body?.error?.code ?? ""
+  }`.trim();
+
+const sendBatch = async (
+  messageIds: string[],
+  toRequest: (id: string) => BatchSubRequest,
+  result: BatchResult,
+): Promise<void> => {
+  let pending = messageIds;
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    const requests = pending.map((id, idx) => ({
       id: String(idx + 1),
-      method: "POST",
-      url: `/me/messages/${id}/move`,
       headers: { "Content-Type": "application/json" },
-      body: { destinationId: "deleteditems" },
+      ...toRequest(id),
     }));
 
-    const token = await getAccessToken();
-    const response = await fetch(`${GRAPH_BASE}/$batch`, {
+    const response = await graphRequest("/$batch", {
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-      },
       body: JSON.stringify({ requests }),
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Batch move failed: ${error}`);
+      result.failed += pending.length;
+      (result.failedIds ??= []).push(...pending);
+      result.errors.push(`Batch request failed: ${response.status} ${error}`);
+      return;
     }
 
-    const processed = Math.min((batchIndex + 1) * batchSize, messageIds.length);
-    console.log(`Moved ${processed}/${messageIds.length} emails to trash`);
-  };
+    const { responses }: { responses: BatchSubResponse[] } = await response
+      .json();
+    const throttled: string[] = [];
+    let delay = 0;
+
+    for (const sub of responses) {
+      const messageId = pending[parseInt(sub.id, 10) - 1];
+      if (sub.status >= 200 && sub.status < 300) {
+        result.succeeded++;
+        // move returns the message under its new ID in the target folder
+        if (sub.body?.id && sub.body.id !== messageId) {
+          (result.movedTo ??= {})[messageId] = sub.body.id;
+        }
+      } else if (sub.status === 404) {
+        result.skipped++;
+        (result.notFound ??= []).push(messageId);
+      } else if (isRetryable(sub.status) && attempt < MAX_RETRIES) {
+        throttled.push(messageId);
+        delay = Math.max(
+          delay,
+          retryDelayMs(sub.headers?.["Retry-After"] ?? null, attempt),
+        );
+      } else {
+        result.failed++;
+        (result.failedIds ??= []).push(messageId);
+        result.errors.push(subResponseError(messageId, sub));
+      }
+    }
+
+    if (throttled.length > 0) {
+      console.log(
+        `  ${throttled.length} requests throttled, retrying in ${
+          delay / 1000
+        }s...`,
+      );
+      await sleep(delay);
+    }
+    pending = throttled;
+  }
+};
+
+const sendBatches = async (
+  messageIds: string[],
+  toRequest: (id: string) => BatchSubRequest,
+  describe: (processed: number, total: number) => string,
+): Promise<BatchResult> => {
+  const batchSize = 20;
+  const result = emptyBatchResult();
+
+  for (let i = 0; i < messageIds.length; i += batchSize) {
+    await sendBatch(messageIds.slice(i, i + batchSize), toRequest, result);
+    console.log(
+      describe(result.succeeded, messageIds.length) +
+        (result.skipped > 0 ? ` (${result.skipped} already gone)` : ""),
+    );
+  }
+
+  if (result.errors.length > 0) {
+    console.log(`\nWarnings: ${result.errors.length} issues occurred`);
+  }
+
+  return result;
+};
+
+export const batchMoveToFolder = (
+  messageIds: string[],
+  destinationId: string,
+  label = destinationId,
+): Promise<BatchResult> =>
+  sendBatches(
+    messageIds,
+    (id) => ({
+      method: "POST",
+      url: `/me/messages/${id}/move`,
+      body: { destinationId },
+    }),
+    (processed, total) => `Moved ${processed}/${total} emails to ${label}`,
+  );
+
+export const batchMoveToTrash = (messageIds: string[]): Promise<BatchResult> =>
+  batchMoveToFolder(messageIds, "deleteditems", "trash");
+
+export const batchSetReadStatus = (
+  messageIds: string[],
+  isRead: boolean,
+): Promise<BatchResult> =>
+  sendBatches(
+    messageIds,
+    (id) => ({
+      method: "PATCH",
+      url: `/me/messages/${id}`,
+      body: { isRead },
+    }),
+    (processed, total) =>
+      `Marked ${processed}/${total} emails as ${isRead ? "read" : "unread"}`,
+  );
 
-  for (const [index, batch] of batches.entries()) {
-    await processBatch(batch, index);
+export const batchCategorize = (
+  items: Array<{ id: string; categories?: string[] }>,
+  category: string,
+): Promise<BatchResult> => {
+  const existing = new Map(items.map((i) => [i.id, i.categories ?? []]));
+  return sendBatches(
+    items.map((i) => i.id),
+    (id) => ({
+      method: "PATCH",
+      url: `/me/messages/${id}`,
+      body: {
+        categories: [...new Set([...existing.get(id) ?? [], category])],
+      },
+    }),
+    (processed, total) =>
+      `Categorized ${processed}/${total} emails as '${category}'`,
+  );
+};
+
+export const batchRestore = async (
+  items: Array<{ id: string; sourceFolder: string; sourceLabel: string }>,
+): Promise<BatchResult> => {
+  const result = emptyBatchResult();
+  const byFolder = new Map<string, typeof items>();
+  for (const item of items) {
+    byFolder.set(item.sourceFolder, [
+      ...byFolder.get(item.sourceFolder) ?? [],
+      item,
+    ]);
   }
+
+  for (const [folderId, folderItems] of byFolder.entries()) {
+    mergeBatchResult(
+      result,
+      await batchMoveToFolder(
+        folderItems.map((i) => i.id),
+        folderId,
+        folderItems[0].sourceLabel,
+      ),
+    );
+  }
+
+  return result;
 };
@@ -1,72 +1,323 @@
 import {
-  batchMoveToTrash as graphBatchMove,
-  fetchGitHubEmails as fetchGraphEmails,
-} from "./ms-graph/emails.ts";
+  batchCheckPrs,
+  getMentionHandles,
+  type PrCheckResult,
+} from "./github/pr.ts";
 import {
-  batchMoveToTrash as ewsBatchMove,
-  fetchGitHubEmails as fetchEwsEmails,
-} from "./ews/emails.ts";
+  batchCheckIssues,
+  describeIssueState,
+  type IssueCheckResult,
+} from "./github/issue.ts";
 import {
-  batchMoveToTrash as mailAppBatchMove,
-  fetchGitHubEmails as fetchMailAppEmails,
-} from "./mail-app/emails.ts";
-import { batchCheckPrs, type PrCheckResult } from "./github/pr.ts";
+  batchCheckDiscussions,
+  type DiscussionCheckResult,
+} from "./github/discussion.ts";
+import {
+  type AlertCheckResult,
+  alertKey,
+  batchCheckAlerts,
+  isAlertResolved,
+} from "./github/security-alert.ts";
+import {
+  type NotificationSync,
+  syncNotificationThreads,
+} from "./github/notifications.ts";
+import {
+  classifyEmail,
+  discussionNumberOf,
+  EMAIL_KIND_LABELS,
+  type EmailKind,
+} from "./shared/email-kind.ts";
 import type { UnifiedEmail } from "./shared/types.ts";
-
-export type Backend = "mail-app" | "graph" | "ews";
+import {
+  appliedItems,
+  type MailBackend,
+  supports,
+  unsupportedMessage,
+} from "./shared/backend.ts";
+import {
+  actionCapability,
+  actionLabel,
+  applyAction,
+  DEFAULT_ACTION,
+  describeAction,
+  isUndoable,
+  type MailAction,
+} from "./shared/action.ts";
+import { type JournalRun, newRunId, saveJournalRun } from "./shared/journal.ts";
+import { getConfig } from "./shared/config.ts";
+import { hostOf, threadKey, threadLabel } from "./shared/github-hosts.ts";
+import {
+  type EmailFacts,
+  type Involvement,
+  matchRule,
+  type Policy,
+  policyActions,
+} from "./shared/policy.ts";
 
 export type ProcessOptions = {
   folder?: string;
   skipMentions: boolean;
   skipReviewRequests: boolean;
+  skipTeamMentions?: boolean;
+  skipTeamReviewRequests?: boolean;
+  skipAssigned?: boolean;
+  skipReviewed?: boolean;
   ciDays?: number;
+  releaseDays?: number;
+  accountDays?: number;
+  skipDiscussions?: boolean;
+  skipSecurityAlerts?: boolean;
   confirm: boolean;
-  backend: Backend;
+  backend: MailBackend;
+  action?: MailAction;
   force?: boolean;
+  fullSync?: boolean;
+  policy?: Policy | null;
+  policyCheck?: boolean;
+  syncNotifications?: NotificationSync;
+  unsubscribe?: boolean;
 };
 
-type PrEmailToDelete = {
+// What the run knows about one email: the built-in decision and the facts a
+// policy rule can match on.
+type Verdict = {
   email: UnifiedEmail;
-  prResult: PrCheckResult;
+  kind: EmailKind;
+  facts: EmailFacts;
+  match: boolean;
   reason: string;
+  ref?: string;
+  prKey?: string;
+  // threadKey of the PR or issue, for syncing GitHub notifications
+  thread?: string;
+  directed?: boolean;
 };
 
-type CiEmailToDelete = {
-  email: UnifiedEmail;
-  reason: string;
+type Outcome = Verdict & { action?: MailAction; rule?: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MENTION_REASONS: Record<string, Involvement> = {
+  mention: "mentioned",
+  team_mention: "team-mentioned",
 };
 
-const backendNames: Record<Backend, string> = {
-  "mail-app": "Mail.app (AppleScript)",
-  "graph": "Microsoft Graph API",
-  "ews": "Exchange Web Services",
+// Involvement kinds that keep an email, minus the ones --skip-* turns off.
+const keepsEmail = (kind: Involvement, options: ProcessOptions): boolean =>
+  ({
+    author: true,
+    assigned: !options.skipAssigned,
+    "review-requested": !options.skipReviewRequests,
+    "team-review-requested": !options.skipTeamReviewRequests,
+    reviewed: !options.skipReviewed,
+    mentioned: !options.skipMentions,
+    "team-mentioned": !options.skipTeamMentions,
+  })[kind];
+
+// Handles are the user's login and "org/team" slugs; teams have the slash.
+const mentionKinds = (
+  mentions: string[],
+  handles: Set<string>,
+): Involvement[] => {
+  const hits = mentions.filter((m) => handles.has(m));
+  return [
+    ...(hits.some((m) => !m.includes("/")) ? ["mentioned" as const] : []),
+    ...(hits.some((m) => m.includes("/")) ? ["team-mentioned" as const] : []),
+  ];
+};
+
+const reasonMentions = (email: UnifiedEmail): Involvement[] => {
+  const kind = MENTION_REASONS[email.githubReason ?? ""];
+  return kind ? [kind] : [];
+};
+
+// Whether the email's own @mentions point at the user in a way that still
+// counts. False when the backend had no body for it.
+const emailMentions = (
+  email: UnifiedEmail,
+  handles: Set<string>,
+  options: ProcessOptions,
+): boolean =>
+  mentionKinds(email.mentions ?? [], handles).some((kind) =>
+    keepsEmail(kind, options)
+  );
+
+// X-GitHub-Reason says why the user follows the thread (a mention reason
+// sticks to every later email), so it's no sign this email mentions them.
+const threadMentions = (
+  email: UnifiedEmail,
+  options: ProcessOptions,
+): boolean => reasonMentions(email).some((kind) => keepsEmail(kind, options));
+
+// Involvement the email itself shows, regardless of --skip-* flags.
+const baseFacts = (
+  email: UnifiedEmail,
+  kind: EmailKind,
+  handles: Set<string>,
+): EmailFacts => {
+  const involvement: Involvement[] = [
+    ...new Set([
+      ...(email.mentions ? mentionKinds(email.mentions, handles) : []),
+      ...reasonMentions(email),
+    ]),
+  ];
+  if (email.githubReason === "review_requested") {
+    involvement.push("review-requested");
+  }
+  if (email.githubReason === "assign") involvement.push("assigned");
+  if (email.githubReason === "author") involvement.push("author");
+
+  return {
+    kind,
+    repo: email.repo,
+    folder: email.mailbox ?? email.folderId ?? "",
+    states: [],
+    labels: [],
+    involvement,
+    ageDays: (Date.now() - new Date(email.receivedDateTime).getTime()) /
+      DAY_MS,
+  };
+};
+
+const withFacts = (
+  facts: EmailFacts,
+  extra: {
+    states: string[];
+    author?: string;
+    labels?: string[];
+    involvement: Array<Involvement | false>;
+  },
+): EmailFacts => ({
+  ...facts,
+  states: extra.states,
+  author: extra.author?.toLowerCase(),
+  labels: (extra.labels ?? []).map((l) => l.toLowerCase()),
+  involvement: [
+    ...new Set([
+      ...facts.involvement,
+      ...extra.involvement.filter((i): i is Involvement => i !== false),
+    ]),
+  ],
+});
+
+const capitalize = (text: string): string =>
+  `${text[0].toUpperCase()}${text.slice(1)}`;
+
+type EmailDecision = { keep: boolean; reason: string };
+
+// Judges one email on a closed or merged PR. An email that itself mentions
+// the user is kept either way. Signals about the whole thread only keep
+// emails on PRs closed without merging: having opened or being assigned to
+// the PR (as for issues), X-GitHub-Reason, and, when the backend has neither
+// body nor headers, the rest of the user's involvement in the PR. Issues have
+// no merged outcome, so decideIssueEmail keeps those in any closed state.
+export const decideEmail = (
+  email: UnifiedEmail,
+  prResult: PrCheckResult,
+  handles: Set<string>,
+  options: ProcessOptions,
+): EmailDecision => {
+  const state = prResult.state.toLowerCase();
+  const notMerged = prResult.state !== "MERGED";
+  const reviewRequested = !options.skipReviewRequests && notMerged &&
+    email.githubReason === "review_requested";
+
+  if (emailMentions(email, handles, options)) {
+    return { keep: true, reason: `${state} PR, this email mentions you` };
+  }
+  if (reviewRequested) {
+    return { keep: true, reason: `${state} PR, review requested` };
+  }
+  const owns = (kind: Involvement) =>
+    notMerged && prResult.involvement.includes(kind) &&
+    keepsEmail(kind, options);
+  if (owns("assigned")) {
+    return { keep: true, reason: `${state} PR, assigned to you` };
+  }
+  if (owns("author")) {
+    return { keep: true, reason: `${state} PR, opened by you` };
+  }
+  if (email.mentions) {
+    return {
+      keep: false,
+      reason: `${state} PR, this email does not mention you`,
+    };
+  }
+
+  if (email.githubReason) {
+    const mentioned = notMerged && threadMentions(email, options);
+    return {
+      keep: mentioned,
+      reason: mentioned
+        ? `${state} PR, you are mentioned in the thread`
+        : `${state} PR, reason: ${email.githubReason}`,
+    };
+  }
+
+  const involved = prResult.involvement.filter((kind) =>
+    keepsEmail(kind, options)
+  );
+  const keep = notMerged && involved.length > 0;
+  return {
+    keep,
+    reason: keep
+      ? `${state} PR, you are involved: ${involved.join(", ")}`
+      : `${state} PR, not specifically mentioned`,
+  };
+};
+
+export const decideIssueEmail = (
+  email: UnifiedEmail,
+  issueResult: IssueCheckResult,
+  handles: Set<string>,
+  options: ProcessOptions,
+): EmailDecision => {
+  const state = describeIssueState(issueResult);
+
+  if (issueResult.isAssigned && !options.skipAssigned) {
+    return { keep: true, reason: `issue ${state}, assigned to you` };
+  }
+  if (issueResult.isAuthor) {
+    return { keep: true, reason: `issue ${state}, opened by you` };
+  }
+
+  const mentioned = email.mentions
+    ? emailMentions(email, handles, options)
+    : email.githubReason
+    ? threadMentions(email, options)
+    : !options.skipMentions && issueResult.wasMentioned;
+  return mentioned
+    ? { keep: true, reason: `issue ${state}, mentions you` }
+    : { keep: false, reason: `issue ${state}, not assigned or mentioned` };
 };
 
 export const processEmails = async (options: ProcessOptions): Promise<void> => {
-  const backendName = backendNames[options.backend];
-  console.log(`Fetching GitHub emails via ${backendName}...\n`);
-
-  const emails: UnifiedEmail[] = await (async () => {
-    switch (options.backend) {
-      case "mail-app": {
-        const mailEmails = await fetchMailAppEmails(options.folder);
-        return mailEmails.map((e) => ({
-          id: e.id,
-          messageId: e.messageId,
-          subject: e.subject,
-          receivedDateTime: e.receivedDateTime,
-          repo: e.repo,
-          prNumber: e.prNumber,
-          mailbox: e.mailbox,
-          account: e.account,
-        }));
-      }
-      case "graph":
-        return fetchGraphEmails(options.folder);
-      case "ews":
-        return fetchEwsEmails(options.folder);
+  const { backend, policy } = options;
+  const action = options.action ?? DEFAULT_ACTION;
+
+  if (options.confirm) {
+    const checks: Array<[MailAction, string]> = [
+      [action, `--action ${actionLabel(action)}`],
+      ...(policy ? policyActions(policy) : []).map((a) =>
+        [a, `policy action ${actionLabel(a)}`] as [MailAction, string]
+      ),
+    ];
+    const unsupported = checks.find(([a]) =>
+      !supports(backend, actionCapability(a))
+    );
+    if (unsupported) {
+      console.error(unsupportedMessage(backend, unsupported[1]));
+      Deno.exitCode = 1;
+      return;
     }
-  })();
+  }
+
+  console.log(`Fetching GitHub emails via ${backend.displayName}...\n`);
+
+  const emails = await backend.fetchGitHubEmails(options.folder, {
+    fullSync: options.fullSync,
+  });
 
   if (emails.length === 0) {
     console.log("No GitHub emails found.");
@@ -75,154 +326,552 @@ export const processEmails = async (options: ProcessOptions): Promise<void> => {
 
   console.log(`Found ${emails.length} GitHub emails.\n`);
 
-  const prEmails = emails.filter((e) => e.repo && e.prNumber);
-  const nonPrEmails = emails.filter((e) => !e.repo || !e.prNumber);
+  const kinds = new Map(emails.map((e) => [e, classifyEmail(e)]));
+  const ofKind = (kind: EmailKind) =>
+    emails.filter((e) => kinds.get(e) === kind);
 
-  const prToDelete: PrEmailToDelete[] = [];
-  const ciToDelete: CiEmailToDelete[] = [];
+  const prEmails = ofKind("pr");
+  const issueEmails = ofKind("issue");
+
+  const verdicts: Verdict[] = [];
+  // Handles differ per GitHub host, so look them up for each one seen.
+  const hosts = [
+    ...new Set(emails.filter((e) => e.repo).map((e) => hostOf(e))),
+  ];
+  const handlesByHost = new Map(
+    await Promise.all(
+      hosts.map(async (h) => [h, await getMentionHandles(h)] as const),
+    ),
+  );
+  const handlesFor = (email: UnifiedEmail) =>
+    handlesByHost.get(hostOf(email)) ?? new Set<string>();
 
   if (prEmails.length > 0) {
     console.log(`\nChecking PR status for ${prEmails.length} emails...`);
 
     const prResults = await batchCheckPrs(
-      prEmails.map((e) => ({ repo: e.repo!, prNumber: e.prNumber! })),
+      prEmails.map((e) => ({
+        repo: e.repo!,
+        prNumber: e.prNumber!,
+        host: e.host,
+      })),
       options.force ?? false,
     );
 
     for (const email of prEmails) {
-      const key = `${email.repo}#${email.prNumber}`;
-      const prResult = prResults.get(key);
-
-      if (!prResult) continue;
+      const prKey = threadLabel(email.repo!, email.prNumber!, email.host);
+      const thread = threadKey(email.repo!, email.prNumber!, email.host);
+      const prResult = prResults.get(thread);
+
+      // Without headers an issue's "#123" looks like a PR until gh says no.
+      if (prResult?.error === "PR not found") {
+        issueEmails.push({
+          ...email,
+          prNumber: null,
+          issueNumber: email.prNumber!,
+        });
+        continue;
+      }
 
-      if (prResult.error) {
+      const facts = baseFacts(email, "pr", handlesFor(email));
+      if (!prResult || prResult.error) {
+        verdicts.push({
+          email,
+          kind: "pr",
+          facts,
+          match: false,
+          reason: "PR status unknown",
+        });
         continue;
       }
 
+      const verdict = {
+        email,
+        kind: "pr" as const,
+        facts: withFacts(facts, {
+          states: [
+            prResult.state.toLowerCase(),
+            ...(prResult.isDraft ? ["draft"] : []),
+          ],
+          author: prResult.author,
+          labels: prResult.labels,
+          involvement: prResult.involvement,
+        }),
+        ref: `PR: ${prKey} (${prResult.state}${
+          prResult.involvement.length > 0
+            ? `; you: ${prResult.involvement.join(", ")}`
+            : ""
+        })`,
+        prKey,
+        thread,
+      };
+
       if (prResult.state === "OPEN") {
+        verdicts.push({ ...verdict, match: false, reason: "open PR" });
         continue;
       }
 
-      if (
-        prResult.state !== "MERGED" && !options.skipMentions &&
-        prResult.wasMentioned
-      ) {
+      const decision = decideEmail(email, prResult, handlesFor(email), options);
+      verdicts.push({
+        ...verdict,
+        match: !decision.keep,
+        reason: decision.reason,
+        directed: decision.keep,
+      });
+    }
+  }
+
+  if (issueEmails.length > 0) {
+    console.log(
+      `\nChecking issue status for ${issueEmails.length} emails...`,
+    );
+
+    const issueResults = await batchCheckIssues(
+      issueEmails.map((e) => ({
+        repo: e.repo!,
+        issueNumber: e.issueNumber!,
+        host: e.host,
+      })),
+      options.force ?? false,
+    );
+
+    for (const email of issueEmails) {
+      const prKey = threadLabel(email.repo!, email.issueNumber!, email.host);
+      const thread = threadKey(email.repo!, email.issueNumber!, email.host);
+      const issueResult = issueResults.get(thread);
+
+      const facts = baseFacts(email, "issue", handlesFor(email));
+      if (!issueResult || issueResult.error) {
+        verdicts.push({
+          email,
+          kind: "issue",
+          facts,
+          match: false,
+          reason: "issue status unknown",
+        });
         continue;
       }
 
-      if (
-        prResult.state !== "MERGED" && !options.skipReviewRequests &&
-        prResult.wasRequestedReviewer
-      ) {
+      const verdict = {
+        email,
+        kind: "issue" as const,
+        facts: withFacts(facts, {
+          states: [
+            issueResult.state.toLowerCase(),
+            ...(issueResult.state === "CLOSED" && issueResult.stateReason
+              ? [issueResult.stateReason.toLowerCase().replace(/_/g, "-")]
+              : []),
+          ],
+          author: issueResult.author,
+          labels: issueResult.labels,
+          involvement: [
+            issueResult.wasMentioned && "mentioned",
+            issueResult.isAssigned && "assigned",
+            issueResult.isAuthor && "author",
+          ],
+        }),
+        ref: `Issue: ${prKey} (${describeIssueState(issueResult)})`,
+        prKey,
+        thread,
+      };
+
+      if (issueResult.state === "OPEN") {
+        verdicts.push({ ...verdict, match: false, reason: "open issue" });
         continue;
       }
 
-      prToDelete.push({
+      const decision = decideIssueEmail(
         email,
-        prResult,
-        reason:
-          `${prResult.state.toLowerCase()} PR, not specifically mentioned`,
+        issueResult,
+        handlesFor(email),
+        options,
+      );
+      verdicts.push({
+        ...verdict,
+        match: !decision.keep,
+        reason: decision.reason,
+        directed: decision.keep,
       });
     }
   }
 
-  if (options.ciDays !== undefined && nonPrEmails.length > 0) {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - options.ciDays);
+  const discussionEmails = ofKind("discussion");
+  let discussionResults = new Map<string, DiscussionCheckResult>();
+  if (!options.skipDiscussions && discussionEmails.length > 0) {
+    console.log(
+      `\nChecking discussion status for ${discussionEmails.length} emails...`,
+    );
 
-    const ciPatterns = [
-      /Run failed/i,
-      /Run succeeded/i,
-      /Run cancelled/i,
-      /Run skipped/i,
-      /workflow run/i,
-    ];
+    discussionResults = await batchCheckDiscussions(
+      discussionEmails.map((e) => ({
+        repo: e.repo!,
+        discussionNumber: discussionNumberOf(e)!,
+        host: e.host,
+      })),
+      options.force ?? false,
+    );
+  }
 
-    for (const email of nonPrEmails) {
-      const isCiEmail = ciPatterns.some((p) => p.test(email.subject));
-      if (!isCiEmail) continue;
+  for (const email of discussionEmails) {
+    const facts = baseFacts(email, "discussion", handlesFor(email));
+    const result = discussionResults.get(
+      threadKey(email.repo!, discussionNumberOf(email)!, email.host),
+    );
+    if (!result || result.error) {
+      verdicts.push({
+        email,
+        kind: "discussion",
+        facts,
+        match: false,
+        reason: options.skipDiscussions
+          ? "discussions skipped"
+          : "discussion status unknown",
+      });
+      continue;
+    }
 
-      const emailDate = new Date(email.receivedDateTime);
-      if (emailDate < cutoffDate) {
-        ciToDelete.push({
-          email,
-          reason: `CI email older than ${options.ciDays} days`,
-        });
-      }
+    const state = result.state.toLowerCase();
+    const directed = result.state !== "OPEN" &&
+      emailMentions(email, handlesFor(email), options);
+    verdicts.push({
+      email,
+      kind: "discussion",
+      facts: withFacts(facts, {
+        states: [state],
+        involvement: [],
+      }),
+      match: result.state !== "OPEN" && !directed,
+      reason: directed
+        ? `discussion ${state}, this email mentions you`
+        : `discussion ${state}`,
+      directed,
+    });
+  }
+
+  const alertEmails = ofKind("security-alert");
+  const alertRefs = alertEmails.flatMap((e) => e.alerts ?? []);
+  let alertResults = new Map<string, AlertCheckResult>();
+  if (!options.skipSecurityAlerts && alertRefs.length > 0) {
+    console.log(
+      `\nChecking security alert status for ${alertEmails.length} emails...`,
+    );
+
+    alertResults = await batchCheckAlerts(alertRefs, options.force ?? false);
+  }
+
+  // An email can cover several alerts; it goes once all of them are closed.
+  for (const email of alertEmails) {
+    const facts = baseFacts(email, "security-alert", handlesFor(email));
+    const results = (email.alerts ?? []).flatMap((ref) =>
+      alertResults.get(alertKey(ref)) ?? []
+    );
+    if (results.length === 0) {
+      verdicts.push({
+        email,
+        kind: "security-alert",
+        facts,
+        match: false,
+        reason: options.skipSecurityAlerts
+          ? "security alerts skipped"
+          : "security alert status unknown",
+      });
+      continue;
     }
+
+    const states = [
+      ...new Set(
+        results.map((r) => r.state.toLowerCase().replace(/_/g, "-")),
+      ),
+    ];
+    const resolved = results.every(isAlertResolved);
+    verdicts.push({
+      email,
+      kind: "security-alert",
+      facts: withFacts(facts, { states, involvement: [] }),
+      match: resolved,
+      reason: `security alert ${states.join(", ").replace(/-/g, " ")}`,
+    });
   }
 
-  const allToDelete = [
-    ...prToDelete.map((d) => d.email),
-    ...ciToDelete.map((d) => d.email),
+  const ageLimits: Array<[EmailKind, number | undefined]> = [
+    ["release", options.releaseDays],
+    ["ci", options.ciDays],
+    ["account", options.accountDays],
+    ["other", undefined],
   ];
+  for (const [kind, days] of ageLimits) {
+    for (const email of ofKind(kind)) {
+      const facts = baseFacts(email, kind, handlesFor(email));
+      const old = days !== undefined && facts.ageDays > days;
+      verdicts.push({
+        email,
+        kind,
+        facts,
+        match: old,
+        reason: old
+          ? `${EMAIL_KIND_LABELS[kind]} email older than ${days} days`
+          : `${EMAIL_KIND_LABELS[kind]} email`,
+      });
+    }
+  }
 
-  console.log(`\n${"=".repeat(60)}`);
+  // The first matching policy rule overrides the built-in decision.
+  const outcomes = verdicts.map((v): Outcome => {
+    const rule = policy ? matchRule(policy, v.facts) : undefined;
+    if (!rule) return v.match ? { ...v, action } : v;
 
-  if (prToDelete.length > 0) {
-    console.log(`\nPR emails to remove: ${prToDelete.length}\n`);
-    for (const item of prToDelete.slice(0, 10)) {
-      console.log(`  - ${item.email.subject}`);
-      console.log(
-        `    PR: ${item.email.repo}#${item.email.prNumber} (${item.prResult.state})`,
-      );
+    const ruled = { ...v, directed: false, rule: rule.label };
+    if (rule.action === "keep") {
+      return { ...ruled, reason: `kept by policy rule ${rule.label}` };
     }
-    if (prToDelete.length > 10) {
-      console.log(`  ... and ${prToDelete.length - 10} more\n`);
+    if (v.facts.ageDays < rule.minAgeDays) {
+      return {
+        ...ruled,
+        reason:
+          `policy rule ${rule.label}, younger than ${rule.minAgeDays} days`,
+      };
     }
+    return {
+      ...ruled,
+      action: rule.action,
+      reason: `policy rule ${rule.label} (${v.reason})`,
+    };
+  });
+
+  if (options.policyCheck) {
+    printPolicyCheck(policy!, outcomes);
+    return;
   }
 
-  if (ciToDelete.length > 0) {
-    console.log(`\nCI emails to remove: ${ciToDelete.length}\n`);
-    for (const item of ciToDelete.slice(0, 10)) {
-      console.log(`  - ${item.email.subject}`);
+  const matched = outcomes.filter((o) => o.action);
+  const matchedKinds = (Object.keys(EMAIL_KIND_LABELS) as EmailKind[])
+    .filter((kind) => matched.some((o) => o.kind === kind));
+
+  console.log(`\n${"=".repeat(60)}`);
+
+  for (const kind of matchedKinds) {
+    const items = matched.filter((o) => o.kind === kind);
+    console.log(
+      `\n${
+        capitalize(EMAIL_KIND_LABELS[kind])
+      } emails matched: ${items.length}\n`,
+    );
+    for (const item of items.slice(0, 10)) {
+      console.log(`  - [${actionLabel(item.action!)}] ${item.email.subject}`);
+      if (item.ref) console.log(`    ${item.ref}`);
+      console.log(`    Reason: ${item.reason}`);
     }
-    if (ciToDelete.length > 10) {
-      console.log(`  ... and ${ciToDelete.length - 10} more\n`);
+    if (items.length > 10) {
+      console.log(`  ... and ${items.length - 10} more\n`);
     }
   }
 
-  if (allToDelete.length === 0) {
-    console.log("No emails match deletion criteria.");
+  const keptDirected = outcomes.filter((o) => o.directed).length;
+  if (keptDirected > 0) {
+    console.log(
+      `\nKept ${keptDirected} emails on closed PRs, issues and discussions that are directed at you.`,
+    );
+  }
+
+  if (matched.length === 0) {
+    console.log("No emails match cleanup criteria.");
     return;
   }
 
-  console.log(`\nTotal: ${allToDelete.length} emails to remove`);
+  const groups = new Map<string, { action: MailAction; items: Outcome[] }>();
+  for (const item of matched) {
+    const label = actionLabel(item.action!);
+    const group = groups.get(label) ?? { action: item.action!, items: [] };
+    group.items.push(item);
+    groups.set(label, group);
+  }
+
+  const counts = matchedKinds.map((kind) =>
+    `${matched.filter((o) => o.kind === kind).length} ${
+      EMAIL_KIND_LABELS[kind]
+    }`
+  );
+  const actionSummary = groups.size === 1
+    ? `action: ${[...groups.keys()][0]}`
+    : `actions: ${
+      [...groups].map(([label, g]) => `${label} ${g.items.length}`).join(", ")
+    }`;
+  console.log(
+    `\nTotal: ${matched.length} emails (${
+      counts.join(", ")
+    }; ${actionSummary})`,
+  );
 
   if (!options.confirm) {
     console.log(`${"=".repeat(60)}`);
     console.log(
-      `\nDry run complete. ${allToDelete.length} emails would be moved to trash.`,
+      `\nDry run complete. Would ${
+        [...groups.values()]
+          .map((g) => describeAction(g.action, g.items.length))
+          .join(" and ")
+      }.`,
     );
-    console.log("Run with --confirm to actually delete these emails.\n");
+    if (options.syncNotifications) {
+      console.log(
+        `Would mark notification threads for ${
+          cleanedThreads(outcomes, outcomes.filter((o) => o.action)).length
+        } PRs and issues as ${options.syncNotifications}.`,
+      );
+    }
+    console.log("Run with --confirm to apply it.\n");
     return;
   }
 
-  console.log(`\nMoving ${allToDelete.length} emails to trash...`);
+  // One journal run per action, so --undo can reverse them separately.
+  const runId = newRunId();
+  const applied: Outcome[] = [];
+  for (const [i, { action, items }] of [...groups.values()].entries()) {
+    applied.push(
+      ...await applyGroup(
+        backend,
+        action,
+        items,
+        groups.size > 1 ? `${runId}-${i + 1}` : runId,
+      ),
+    );
+  }
 
-  switch (options.backend) {
-    case "mail-app":
-      await mailAppBatchMove(
-        allToDelete.map((e) => ({
-          account: e.account!,
-          mailbox: e.mailbox!,
-          id: e.id,
-          messageId: e.messageId,
-        })),
-      );
-      break;
-    case "graph":
-      await graphBatchMove(allToDelete.map((e) => e.id));
-      break;
-    case "ews":
-      await ewsBatchMove(
-        allToDelete.map((e) => ({
-          id: e.id,
-          changeKey: e.changeKey!,
-        })),
-      );
-      break;
+  if (options.syncNotifications) {
+    await syncNotifications(
+      cleanedThreads(outcomes, applied),
+      options.syncNotifications,
+      options.unsubscribe ?? false,
+    );
+  }
+};
+
+// Threads every email of which was cleaned up (`applied`); one kept email
+// (say, a mention) or one the action failed on keeps the thread in the web
+// inbox too.
+const cleanedThreads = (outcomes: Outcome[], applied: Outcome[]): string[] => {
+  const done = new Set(applied);
+  const kept = new Set(
+    outcomes.filter((o) => o.thread && !done.has(o)).map((o) => o.thread),
+  );
+  return [
+    ...new Set(
+      applied.flatMap((o) => o.thread && !kept.has(o.thread) ? [o.thread] : []),
+    ),
+  ];
+};
+
+const syncNotifications = async (
+  threads: string[],
+  mode: NotificationSync,
+  unsubscribe: boolean,
+): Promise<void> => {
+  if (threads.length === 0) return;
+  console.log(
+    `\nMarking GitHub notification threads for ${threads.length} PRs and issues as ${mode}...`,
+  );
+  try {
+    const result = await syncNotificationThreads(threads, mode, unsubscribe);
+    const notes = [
+      unsubscribe ? `${result.unsubscribed} unsubscribed` : "",
+      result.notFound > 0 ? `${result.notFound} not in notifications` : "",
+      result.failed > 0 ? `${result.failed} failed` : "",
+    ].filter(Boolean);
+    console.log(
+      `Synced ${result.synced} notification threads` +
+        (notes.length > 0 ? ` (${notes.join(", ")}).` : "."),
+    );
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    Deno.exitCode = 1;
+  }
+};
+
+const printPolicyCheck = (policy: Policy, outcomes: Outcome[]): void => {
+  console.log(`\nPolicy: ${policy.path} (${policy.rules.length} rules)\n`);
+
+  for (const item of outcomes) {
+    console.log(`  - ${item.email.subject}`);
+    console.log(
+      `    Rule: ${item.rule ?? "default"} -> ${
+        item.action ? actionLabel(item.action) : "keep"
+      }`,
+    );
+    console.log(`    Reason: ${item.reason}`);
+  }
+
+  const hits = new Map<string, number>();
+  for (const item of outcomes) {
+    const rule = item.rule ?? "default";
+    hits.set(rule, (hits.get(rule) ?? 0) + 1);
+  }
+  console.log(`\n${"=".repeat(60)}`);
+  for (const rule of [...policy.rules.map((r) => r.label), "default"]) {
+    console.log(`  ${rule}: ${hits.get(rule) ?? 0} emails`);
+  }
+  console.log("\nPolicy check only; nothing was changed.");
+};
+
+const applyGroup = async (
+  backend: MailBackend,
+  action: MailAction,
+  items: Outcome[],
+  runId: string,
+): Promise<Outcome[]> => {
+  const emails = items.map((item) => item.email);
+  const description = describeAction(action, emails.length);
+  console.log(`\n${capitalize(description)}...`);
+
+  const result = await applyAction(backend, action, emails);
+
+  const notes = [
+    result.skipped > 0 ? `${result.skipped} already gone` : "",
+    result.failed > 0 ? `${result.failed} failed` : "",
+  ].filter(Boolean);
+  console.log(
+    `\nDone! Applied ${
+      actionLabel(action)
+    } to ${result.succeeded}/${emails.length} emails` +
+      (notes.length > 0 ? ` (${notes.join(", ")}).` : "."),
+  );
+
+  // Only what actually moved goes in the journal, so --undo doesn't go
+  // looking for emails that never left their folder.
+  const appliedIds = new Set(appliedItems(emails, result).map((e) => e.id));
+  const applied = items.filter((item) => appliedIds.has(item.email.id));
+
+  if (applied.length > 0) {
+    const run: JournalRun = {
+      id: runId,
+      createdAt: new Date().toISOString(),
+      backend: backend.name,
+      profile: getConfig().profile ?? undefined,
+      action,
+      emails: applied.map(({ email, reason, prKey }) => ({
+        id: result.movedTo?.[email.id] ?? email.id,
+        originalId: email.id,
+        sourceFolder: email.folderId ?? email.mailbox ?? "",
+        sourceLabel: email.mailbox ?? email.folderId ?? "",
+        subject: email.subject,
+        messageId: email.messageId,
+        account: email.account,
+        reason,
+        prKey,
+      })),
+    };
+    await saveJournalRun(run);
+    console.log(
+      supports(backend, "undo") && isUndoable(action)
+        ? `Journal saved as run ${run.id} (undo with --undo ${run.id}).`
+        : `Journal saved as run ${run.id}.`,
+    );
+  }
+
+  if (result.failed > 0) {
+    for (const error of result.errors) {
+      console.error(`  ${error}`);
+    }
+    Deno.exitCode = 1;
   }
 
-  console.log(`\nDone! Moved ${allToDelete.length} emails to trash.`);
+  return applied;
 };
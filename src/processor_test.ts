@@ -0,0 +1,107 @@
+import { assertEquals } from "@std/assert";
+import type { PrCheckResult } from "./github/pr.ts";
+import type { IssueCheckResult } from "./github/issue.ts";
+import type { Involvement } from "./shared/policy.ts";
+import type { UnifiedEmail } from "./shared/types.ts";
+import {
+  decideEmail,
+  decideIssueEmail,
+  type ProcessOptions,
+} from "./processor.ts";
+
+const options = {
+  skipMentions: false,
+  skipReviewRequests: false,
+} as ProcessOptions;
+
+const handles = new Set(["alice", "acme/core"]);
+
+const email = (overrides: Partial<UnifiedEmail> = {}): UnifiedEmail => ({
+  id: "1",
+  subject: "Re: [acme/widgets] Fix the thing (PR #7)",
+  receivedDateTime: "2024-05-01T10:00:00Z",
+  repo: "acme/widgets",
+  prNumber: 7,
+  githubReason: "subscribed",
+  ...overrides,
+});
+
+const prResult = (
+  state: PrCheckResult["state"],
+  involvement: Involvement[],
+): PrCheckResult => ({
+  repo: "acme/widgets",
+  prNumber: 7,
+  state,
+  isMerged: state === "MERGED",
+  isDraft: false,
+  isInMergeQueue: false,
+  involvement,
+});
+
+const issueResult = (
+  overrides: Partial<IssueCheckResult> = {},
+): IssueCheckResult => ({
+  repo: "acme/widgets",
+  issueNumber: 7,
+  state: "CLOSED",
+  stateReason: "COMPLETED",
+  isAssigned: false,
+  isAuthor: false,
+  wasMentioned: false,
+  ...overrides,
+});
+
+const keepsPr = (result: PrCheckResult, overrides?: Partial<UnifiedEmail>) =>
+  decideEmail(email(overrides), result, handles, options).keep;
+
+Deno.test("authors and assignees keep PR emails like issue emails", () => {
+  for (const kind of ["author", "assigned"] as const) {
+    assertEquals(keepsPr(prResult("CLOSED", [kind])), true);
+    assertEquals(keepsPr(prResult("CLOSED", [kind]), { mentions: [] }), true);
+  }
+  assertEquals(
+    decideIssueEmail(email(), issueResult({ isAuthor: true }), handles, options)
+      .keep,
+    true,
+  );
+  assertEquals(
+    decideIssueEmail(
+      email(),
+      issueResult({ isAssigned: true }),
+      handles,
+      options,
+    ).keep,
+    true,
+  );
+});
+
+// Issues have no merged outcome; on a PR the thread-level ties end with it.
+Deno.test("a merged PR keeps only emails that mention the user", () => {
+  assertEquals(keepsPr(prResult("MERGED", ["author", "assigned"])), false);
+  assertEquals(
+    keepsPr(prResult("MERGED", ["author"]), { mentions: ["alice"] }),
+    true,
+  );
+});
+
+Deno.test("--skip-assigned drops assignment on both paths", () => {
+  const skip = { ...options, skipAssigned: true };
+  assertEquals(
+    decideEmail(email(), prResult("CLOSED", ["assigned"]), handles, skip).keep,
+    false,
+  );
+  assertEquals(
+    decideIssueEmail(email(), issueResult({ isAssigned: true }), handles, skip)
+      .keep,
+    false,
+  );
+});
+
+Deno.test("uninvolved users lose emails on closed PRs and issues", () => {
+  assertEquals(keepsPr(prResult("CLOSED", [])), false);
+  assertEquals(
+    decideIssueEmail(email(), issueResult(), handles, options).keep,
+    false,
+  );
+});
@@ -0,0 +1,91 @@
+import type { BackendCapability, BatchResult, MailBackend } from "./backend.ts";
+import type { UnifiedEmail } from "./types.ts";
+
+export type MailAction =
+  | { kind: "trash" }
+  | { kind: "archive" }
+  | { kind: "move"; folder: string }
+  | { kind: "mark-read" }
+  | { kind: "categorize"; category: string };
+
+export const DEFAULT_ACTION: MailAction = { kind: "trash" };
+
+export const parseAction = (value: string): MailAction => {
+  const [kind, ...rest] = value.split(":");
+  const arg = rest.join(":").trim();
+
+  switch (kind.trim().toLowerCase()) {
+    case "trash":
+      return { kind: "trash" };
+    case "archive":
+      return { kind: "archive" };
+    case "mark-read":
+      return { kind: "mark-read" };
+    case "move":
+      if (arg) return { kind: "move", folder: arg };
+      break;
+    case "categorize":
+      if (arg) return { kind: "categorize", category: arg };
+      break;
+  }
+
+  throw new Error(
+    `Invalid action '${value}' (expected trash, archive, move:<folder>, mark-read, or categorize:<name>)`,
+  );
+};
+
+// Only actions that move emails can be reversed by moving them back.
+export const isUndoable = (action: MailAction): boolean =>
+  action.kind === "trash" || action.kind === "archive" ||
+  action.kind === "move";
+
+export const actionCapability = (action: MailAction): BackendCapability =>
+  action.kind;
+
+// Short form shown next to each email in the dry-run listing.
+export const actionLabel = (action: MailAction): string => {
+  switch (action.kind) {
+    case "trash":
+    case "archive":
+    case "mark-read":
+      return action.kind;
+    case "move":
+      return `move:${action.folder}`;
+    case "categorize":
+      return `categorize:${action.category}`;
+  }
+};
+
+export const describeAction = (action: MailAction, count: number): string => {
+  switch (action.kind) {
+    case "trash":
+      return `move ${count} emails to trash`;
+    case "archive":
+      return `archive ${count} emails`;
+    case "move":
+      return `move ${count} emails to ${action.folder}`;
+    case "mark-read":
+      return `mark ${count} emails as read`;
+    case "categorize":
+      return `categorize ${count} emails as '${action.category}'`;
+  }
+};
+
+export const applyAction = (
+  backend: MailBackend,
+  action: MailAction,
+  emails: UnifiedEmail[],
+): Promise<BatchResult> => {
+  switch (action.kind) {
+    case "trash":
+      return backend.moveToTrash!(emails);
+    case "archive":
+      return backend.archive!(emails);
+    case "move":
+      return backend.moveToFolder!(emails, action.folder);
+    case "mark-read":
+      return backend.setReadStatus!(emails, true);
+    case "categorize":
+      return backend.categorize!(emails, action.category);
+  }
+};
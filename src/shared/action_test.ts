@@ -0,0 +1,42 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { actionLabel, isUndoable, parseAction } from "./action.ts";
+
+Deno.test("actions parse case-insensitively with their argument", () => {
+  assertEquals(parseAction("trash"), { kind: "trash" });
+  assertEquals(parseAction(" Archive "), { kind: "archive" });
+  assertEquals(parseAction("MARK-READ"), { kind: "mark-read" });
+  assertEquals(parseAction("move: Archive/2024"), {
+    kind: "move",
+    folder: "Archive/2024",
+  });
+  // Only the first colon separates the kind from its argument.
+  assertEquals(parseAction("categorize:GitHub: done"), {
+    kind: "categorize",
+    category: "GitHub: done",
+  });
+});
+
+Deno.test("move and categorize need an argument", () => {
+  for (const value of ["move", "move:", "categorize: ", "delete", ""]) {
+    assertThrows(() => parseAction(value), Error, `Invalid action '${value}'`);
+  }
+});
+
+Deno.test("labels round-trip and only moves are undoable", () => {
+  const values = [
+    "trash",
+    "archive",
+    "move:Done",
+    "mark-read",
+    "categorize:CI",
+  ];
+
+  assertEquals(values.map((value) => actionLabel(parseAction(value))), values);
+  assertEquals(values.map((value) => isUndoable(parseAction(value))), [
+    true,
+    true,
+    true,
+    false,
+    false,
+  ]);
+});
@@ -0,0 +1,115 @@
+import type { FetchOptions, UnifiedEmail } from "./types.ts";
+import type { MailAction } from "./action.ts";
+import type { JournalEmail } from "./journal.ts";
+
+export type Backend =
+  | "mail-app"
+  | "graph"
+  | "ews"
+  | "imap"
+  | "gmail"
+  | "jmap"
+  | "maildir"
+  | "mbox"
+  | "github-notifications";
+
+export type BackendCapability =
+  | "trash"
+  | "archive"
+  | "move"
+  | "mark-read"
+  | "categorize"
+  | "undo"
+  | "tidy";
+
+export type BatchResult = {
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  errors: string[];
+  // IDs that no longer exist on the server (counted in skipped)
+  notFound?: string[];
+  // IDs the action may not have gone through for (counted in failed). When a
+  // backend can't tell which emails of a batch failed, it lists the batch.
+  failedIds?: string[];
+  // Old ID -> new ID, for servers that assign a new ID when moving
+  movedTo?: Record<string, string>;
+};
+
+export type MailBackend = {
+  name: Backend;
+  displayName: string;
+  capabilities: ReadonlySet<BackendCapability>;
+  fetchGitHubEmails: (
+    folder?: string,
+    options?: FetchOptions,
+  ) => Promise<UnifiedEmail[]>;
+  moveToTrash?: (emails: UnifiedEmail[]) => Promise<BatchResult>;
+  archive?: (emails: UnifiedEmail[]) => Promise<BatchResult>;
+  moveToFolder?: (
+    emails: UnifiedEmail[],
+    folder: string,
+  ) => Promise<BatchResult>;
+  setReadStatus?: (
+    emails: UnifiedEmail[],
+    read: boolean,
+  ) => Promise<BatchResult>;
+  categorize?: (
+    emails: UnifiedEmail[],
+    category: string,
+  ) => Promise<BatchResult>;
+  restore?: (
+    emails: JournalEmail[],
+    action: MailAction,
+  ) => Promise<BatchResult>;
+  tidyInbox?: (confirm: boolean) => Promise<void>;
+};
+
+export const emptyBatchResult = (): BatchResult => ({
+  succeeded: 0,
+  failed: 0,
+  skipped: 0,
+  errors: [],
+});
+
+export const mergeBatchResult = (
+  target: BatchResult,
+  partial: BatchResult,
+): void => {
+  target.succeeded += partial.succeeded;
+  target.failed += partial.failed;
+  target.skipped += partial.skipped;
+  target.errors.push(...partial.errors);
+  if (partial.notFound) {
+    (target.notFound ??= []).push(...partial.notFound);
+  }
+  if (partial.failedIds) {
+    (target.failedIds ??= []).push(...partial.failedIds);
+  }
+  if (partial.movedTo) {
+    target.movedTo = { ...target.movedTo, ...partial.movedTo };
+  }
+};
+
+// The items an action went through for: neither failed nor already gone.
+export const appliedItems = <T extends { id: string }>(
+  items: T[],
+  result: BatchResult,
+): T[] => {
+  const unapplied = new Set([
+    ...(result.failedIds ?? []),
+    ...(result.notFound ?? []),
+  ]);
+  return items.filter((item) => !unapplied.has(item.id));
+};
+
+export const supports = (
+  backend: MailBackend,
+  capability: BackendCapability,
+): boolean => backend.capabilities.has(capability);
+
+export const unsupportedMessage = (
+  backend: MailBackend,
+  what: string,
+): string =>
+  `${what} is not supported by the ${backend.displayName} backend (${backend.name}).`;
@@ -0,0 +1,479 @@
+import { ensureDir } from "@std/fs/ensure-dir";
+import { join } from "@std/path/join";
+import { extname } from "@std/path/extname";
+import { parse as parseToml } from "@std/toml/parse";
+import { parse as parseYaml } from "@std/yaml/parse";
+
+const CONFIG_FILES = [
+  "config.toml",
+  "config.yaml",
+  "config.yml",
+  "config.json",
+];
+
+const DEFAULT_BOTS = ["dependabot"];
+const DEFAULT_MS_CLIENT = "azure-cli";
+
+type Setting<T> = { value: T; source: string };
+
+// A GitHub instance and the address its notification emails come from.
+export type GitHubHost = {
+  host: string;
+  sender: string;
+  githubHandle?: string;
+  ghToken?: string;
+};
+
+const DEFAULT_GITHUB_HOST = "github.com";
+
+export type Config = {
+  path: string | null;
+  profile: string | null;
+  backend: Setting<string>;
+  githubHandle: Setting<string | undefined>;
+  org: Setting<string | undefined>;
+  bots: Setting<string[]>;
+  msClientId: Setting<string>;
+  ghHost: Setting<string | undefined>;
+  ghToken: Setting<string | undefined>;
+  hosts: Setting<GitHubHost[]>;
+  exclude: Setting<string[]>;
+  // Backend variables (IMAP_HOST, EWS_URL, ...) set by the profile.
+  env: Record<string, string>;
+  // Environment variables that override a value the profile sets.
+  shadowed: string[];
+};
+
+// Values given on the command line; they beat everything else.
+export type CliSettings = {
+  // One profile, or several separated by commas.
+  profile?: string;
+  backend?: string;
+  org?: string;
+};
+
+type Profile = {
+  backend?: string;
+  github_handle?: string;
+  org?: string;
+  bots?: string[];
+  ms_client_id?: string;
+  gh_host?: string;
+  gh_token?: string;
+  hosts?: Array<string | HostEntry>;
+  exclude?: string[];
+  env?: Record<string, string>;
+};
+
+type HostEntry = {
+  host: string;
+  sender?: string;
+  github_handle?: string;
+  gh_token?: string;
+};
+
+type ConfigFile = {
+  default_profile?: string;
+  accounts?: string[];
+  profiles?: Record<string, Profile>;
+};
+
+const PROFILE_KEYS = new Set([
+  "backend",
+  "github_handle",
+  "org",
+  "bots",
+  "ms_client_id",
+  "gh_host",
+  "gh_token",
+  "hosts",
+  "exclude",
+  "env",
+]);
+
+const state: { config?: Config } = {};
+
+export const getConfigDir = async (): Promise<string> => {
+  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? ".";
+  const configDir = join(home, ".config", "lgtm-gtfo");
+  await ensureDir(configDir);
+  return configDir;
+};
+
+// Tokens, caches and sync state live under profiles/<name>/ so accounts
+// don't share them.
+export const getDataDir = async (): Promise<string> => {
+  const { profile } = getConfig();
+  const dir = profile
+    ? join(await getConfigDir(), "profiles", profile)
+    : await getConfigDir();
+  await ensureDir(dir);
+  return dir;
+};
+
+export const parseConfigText = (text: string, path: string): unknown => {
+  switch (extname(path).toLowerCase()) {
+    case ".toml":
+      return parseToml(text);
+    case ".yaml":
+    case ".yml":
+      return parseYaml(text);
+    default:
+      return JSON.parse(text);
+  }
+};
+
+const toHost = (entry: string | HostEntry): GitHubHost => {
+  const { host, sender, github_handle, gh_token } = typeof entry === "string"
+    ? { host: entry } as HostEntry
+    : entry;
+  if (typeof host !== "string" || !host) {
+    throw new Error(`GitHub host entries need a "host" name`);
+  }
+  return {
+    host: host.toLowerCase(),
+    sender: (sender ?? `notifications@${host}`).toLowerCase(),
+    githubHandle: github_handle,
+    ghToken: gh_token,
+  };
+};
+
+// "github.com,ghe.acme.com=noreply@ghe.acme.com"
+const parseHostList = (value: string): GitHubHost[] =>
+  value.split(",").map((v) => v.trim()).filter(Boolean).map((v) => {
+    const [host, sender] = v.split("=", 2);
+    return toHost({ host, sender });
+  });
+
+const splitList = (value: string): string[] =>
+  value.split(",").map((v) => v.trim().toLowerCase()).filter(Boolean);
+
+const findConfigPath = async (): Promise<string | null> => {
+  const override = Deno.env.get("LGTM_CONFIG");
+  if (override) return override;
+
+  const dir = await getConfigDir();
+  for (const name of CONFIG_FILES) {
+    try {
+      await Deno.stat(join(dir, name));
+      return join(dir, name);
+    } catch {
+      // try the next format
+    }
+  }
+  return null;
+};
+
+const validateProfile = (name: string, raw: unknown): Profile => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`profile "${name}" must be a table/object`);
+  }
+  for (const key of Object.keys(raw)) {
+    if (!PROFILE_KEYS.has(key)) {
+      throw new Error(`profile "${name}": unknown key "${key}"`);
+    }
+  }
+  return raw as Profile;
+};
+
+const readConfigFile = async (path: string): Promise<ConfigFile> => {
+  try {
+    const raw = parseConfigText(await Deno.readTextFile(path), path) as
+      | ConfigFile
+      | null;
+    const profiles = Object.fromEntries(
+      Object.entries(raw?.profiles ?? {}).map((
+        [name, profile],
+      ) => [name, validateProfile(name, profile)]),
+    );
+    const accounts = raw?.accounts;
+    if (
+      accounts !== undefined &&
+      (!Array.isArray(accounts) ||
+        !accounts.every((a) => typeof a === "string"))
+    ) {
+      throw new Error('"accounts" must be a list of profile names');
+    }
+    return { default_profile: raw?.default_profile, accounts, profiles };
+  } catch (e) {
+    throw new Error(
+      `Failed to read config ${path}: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+};
+
+const loadExcludeFile = async (): Promise<string[] | null> => {
+  const root = new URL("../../", import.meta.url);
+  try {
+    const text = await Deno.readTextFile(new URL(".exclude", root));
+    return text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith("#"))
+      .map((line) => line.toLowerCase());
+  } catch {
+    return null;
+  }
+};
+
+// Precedence: command line, then environment, then profile, then defaults.
+export const PRECEDENCE = "command line > environment > profile > defaults";
+
+const resolveConfig = (
+  file: ConfigFile | null,
+  path: string | null,
+  profileName: string | null,
+  cli: CliSettings,
+  excludeFile: string[] | null,
+): Config => {
+  const profile = profileName ? file?.profiles?.[profileName] : undefined;
+  if (profileName && !profile) {
+    throw new Error(
+      path
+        ? `Unknown profile "${profileName}" in ${path}`
+        : `Profile "${profileName}" given but no config file found`,
+    );
+  }
+  const fromProfile = `profile ${profileName}`;
+  const shadowed = Object.keys(profile?.env ?? {})
+    .filter((name) => Deno.env.get(name) !== undefined);
+
+  const pick = <T>(
+    cliValue: T | undefined,
+    envName: string,
+    parseEnv: (value: string) => T,
+    profileValue: T | undefined,
+    fallback: Setting<T>,
+  ): Setting<T> => {
+    const envValue = Deno.env.get(envName);
+    if (cliValue !== undefined) {
+      return { value: cliValue, source: "command line" };
+    }
+    if (envValue) {
+      if (profileValue !== undefined) shadowed.push(envName);
+      return { value: parseEnv(envValue), source: `env ${envName}` };
+    }
+    if (profileValue !== undefined) {
+      return { value: profileValue, source: fromProfile };
+    }
+    return fallback;
+  };
+
+  const identity = (value: string) => value;
+
+  return {
+    path,
+    profile: profileName,
+    backend: pick(cli.backend, "LGTM_BACKEND", identity, profile?.backend, {
+      value: "graph",
+      source: "default",
+    }),
+    githubHandle: pick(
+      undefined,
+      "GITHUB_HANDLE",
+      identity,
+      profile?.github_handle,
+      { value: undefined, source: "default" },
+    ),
+    org: pick(cli.org, "LGTM_ORG", identity, profile?.org, {
+      value: undefined,
+      source: "default",
+    }),
+    bots: pick(
+      undefined,
+      "LGTM_BOTS",
+      splitList,
+      profile?.bots?.map((b) => b.toLowerCase()),
+      { value: DEFAULT_BOTS, source: "default" },
+    ),
+    msClientId: pick(
+      undefined,
+      "MS_CLIENT_ID",
+      identity,
+      profile?.ms_client_id,
+      { value: DEFAULT_MS_CLIENT, source: "default" },
+    ),
+    ghHost: pick(undefined, "GH_HOST", identity, profile?.gh_host, {
+      value: undefined,
+      source: "default",
+    }),
+    ghToken: pick(undefined, "GH_TOKEN", identity, profile?.gh_token, {
+      value: undefined,
+      source: "default",
+    }),
+    hosts: pick(
+      undefined,
+      "LGTM_GITHUB_HOSTS",
+      parseHostList,
+      profile?.hosts?.map(toHost),
+      {
+        value: [
+          toHost(
+            Deno.env.get("GH_HOST") ?? profile?.gh_host ??
+              DEFAULT_GITHUB_HOST,
+          ),
+        ],
+        source: "default",
+      },
+    ),
+    exclude: profile?.exclude
+      ? {
+        value: profile.exclude.map((p) => p.toLowerCase()),
+        source: fromProfile,
+      }
+      : excludeFile
+      ? { value: excludeFile, source: ".exclude" }
+      : { value: [], source: "default" },
+    env: profile?.env ?? {},
+    shadowed,
+  };
+};
+
+const splitNames = (value: string): string[] =>
+  value.split(",").map((v) => v.trim()).filter(Boolean);
+
+// One config per account: --profile or LGTM_PROFILE (comma-separated), else
+// the file's "accounts" list, else its default profile. The first is active.
+export const loadAccounts = async (
+  cli: CliSettings = {},
+): Promise<Config[]> => {
+  const path = await findConfigPath();
+  const file = path ? await readConfigFile(path) : null;
+  const excludeFile = await loadExcludeFile();
+
+  const selected = cli.profile ?? Deno.env.get("LGTM_PROFILE");
+  const names: Array<string | null> = selected
+    ? splitNames(selected)
+    : file?.accounts?.length
+    ? file.accounts
+    : [file?.default_profile ?? null];
+
+  const configs = names.map((name) =>
+    resolveConfig(file, path, name, cli, excludeFile)
+  );
+  state.config = configs[0];
+  return configs;
+};
+
+export const loadConfig = async (cli: CliSettings = {}): Promise<Config> =>
+  (await loadAccounts(cli))[0];
+
+// An environment variable (from .env.local, say) overrides the same setting in
+// every account of a multi-account run, so accounts whose profiles set it
+// would all share one value. Lists each such variable with those accounts.
+export const sharedEnvConflicts = (configs: Config[]): string[] => {
+  if (configs.length < 2) return [];
+  const accounts = new Map<string, string[]>();
+  for (const config of configs) {
+    for (const name of new Set(config.shadowed)) {
+      accounts.set(name, [...accounts.get(name) ?? [], config.profile!]);
+    }
+  }
+  return [...accounts].map(([name, profiles]) =>
+    `${name} from the environment overrides profiles ${
+      profiles.join(", ")
+    }; unset it so each account uses its own value`
+  );
+};
+
+// Switches the account that settings, tokens and caches are read for.
+export const useConfig = (config: Config): void => {
+  state.config = config;
+};
+
+// Falls back to environment and defaults when no config was loaded.
+export const getConfig = (): Config => {
+  if (!state.config) {
+    state.config = resolveConfig(
+      null,
+      null,
+      splitNames(Deno.env.get("LGTM_PROFILE") ?? "")[0] ?? null,
+      {},
+      null,
+    );
+  }
+  return state.config;
+};
+
+// Memoises a value per account, for caches that one run may need for
+// several profiles.
+export const perAccount = <T>(make: () => T): () => T => {
+  const values = new Map<string, T>();
+  return () => {
+    const key = getConfig().profile ?? "";
+    if (!values.has(key)) values.set(key, make());
+    return values.get(key)!;
+  };
+};
+
+// Extra environment for gh, pointing it at a host (default: the account's
+// first) and that host's token. gh reads GHES tokens from GH_ENTERPRISE_TOKEN.
+export const ghEnv = (host?: string): Record<string, string> => {
+  const { ghToken, hosts } = getConfig();
+  const target = host ?? hosts.value[0].host;
+  const token = hosts.value.find((h) => h.host === target)?.ghToken ??
+    (target === hosts.value[0].host ? ghToken.value : undefined);
+  const tokenVar = target === DEFAULT_GITHUB_HOST
+    ? "GH_TOKEN"
+    : "GH_ENTERPRISE_TOKEN";
+  return { GH_HOST: target, ...(token ? { [tokenVar]: token } : {}) };
+};
+
+// Backend settings: the environment wins, then the active profile's env table.
+export const env = (name: string): string | undefined =>
+  Deno.env.get(name) ?? getConfig().env[name];
+
+export const printConfig = (config: Config): void => {
+  console.log(`\nConfig file: ${config.path ?? "(none)"}`);
+  console.log(`Profile:     ${config.profile ?? "(none)"}`);
+  console.log(`Precedence:  ${PRECEDENCE}\n`);
+
+  const rows: Array<[string, string, string]> = [
+    ["backend", config.backend.value, config.backend.source],
+    [
+      "github_handle",
+      config.githubHandle.value ?? "(from gh api user)",
+      config.githubHandle.source,
+    ],
+    ["org", config.org.value ?? "(all)", config.org.source],
+    ["bots", config.bots.value.join(", "), config.bots.source],
+    ["ms_client_id", config.msClientId.value, config.msClientId.source],
+    ["gh_host", config.ghHost.value ?? "github.com", config.ghHost.source],
+    [
+      "gh_token",
+      config.ghToken.value ? "********" : "(gh auth)",
+      config.ghToken.source,
+    ],
+    [
+      "hosts",
+      config.hosts.value.map((h) => `${h.host} (${h.sender})`).join(", "),
+      config.hosts.source,
+    ],
+    [
+      "exclude",
+      config.exclude.value.join(", ") || "(none)",
+      config.exclude.source,
+    ],
+    ...Object.entries(config.env).map(([name, value]): [
+      string,
+      string,
+      string,
+    ] => [
+      `env.${name}`,
+      /PASSWORD|SECRET|TOKEN/i.test(name)
+        ? "********"
+        : Deno.env.get(name) ?? value,
+      Deno.env.get(name) !== undefined
+        ? `env ${name}`
+        : `profile ${config.profile}`,
+    ]),
+  ];
+
+  const width = Math.max(...rows.map(([name]) => name.length)) + 2;
+  const valueWidth = Math.max(...rows.map(([, value]) => value.length)) + 2;
+  for (const [name, value, source] of rows) {
+    console.log(
+      `  ${name.padEnd(width)}${value.padEnd(valueWidth)}(${source})`,
+    );
+  }
+};
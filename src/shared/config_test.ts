@@ -0,0 +1,99 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path/join";
+import { env, loadAccounts, sharedEnvConflicts, useConfig } from "./config.ts";
+
+const CONFIG = {
+  default_profile: "work",
+  profiles: {
+    work: {
+      backend: "ews",
+      org: "acme",
+      env: { EWS_URL: "https://mail.acme.com/EWS/Exchange.asmx" },
+    },
+    oss: {
+      backend: "imap",
+      env: { IMAP_HOST: "imap.fastmail.com" },
+    },
+  },
+};
+
+const VARS = [
+  "LGTM_CONFIG",
+  "LGTM_PROFILE",
+  "LGTM_BACKEND",
+  "LGTM_ORG",
+  "GH_HOST",
+  "EWS_URL",
+  "IMAP_HOST",
+];
+
+// Runs `fn` with a config file and only the given variables set.
+const withEnv = async (
+  vars: Record<string, string>,
+  fn: () => Promise<void>,
+) => {
+  const saved = new Map(VARS.map((name) => [name, Deno.env.get(name)]));
+  const dir = await Deno.makeTempDir();
+  const path = join(dir, "config.json");
+  await Deno.writeTextFile(path, JSON.stringify(CONFIG));
+  for (const name of VARS) Deno.env.delete(name);
+  for (const [name, value] of Object.entries({ LGTM_CONFIG: path, ...vars })) {
+    Deno.env.set(name, value);
+  }
+  try {
+    await fn();
+  } finally {
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+    await Deno.remove(dir, { recursive: true });
+  }
+};
+
+Deno.test("the default profile fills in unset values", async () => {
+  await withEnv({}, async () => {
+    const [config] = await loadAccounts();
+
+    assertEquals(config.profile, "work");
+    assertEquals(config.backend, { value: "ews", source: "profile work" });
+    assertEquals(config.bots, { value: ["dependabot"], source: "default" });
+    assertEquals(config.shadowed, []);
+  });
+});
+
+Deno.test("command line beats environment, which beats the profile", async () => {
+  await withEnv({ LGTM_BACKEND: "gmail", LGTM_ORG: "env-org" }, async () => {
+    const [config] = await loadAccounts({ backend: "jmap" });
+
+    assertEquals(config.backend, { value: "jmap", source: "command line" });
+    assertEquals(config.org, { value: "env-org", source: "env LGTM_ORG" });
+    assertEquals(config.shadowed, ["LGTM_ORG"]);
+  });
+});
+
+Deno.test("backend variables come from the environment before the profile", async () => {
+  await withEnv({ EWS_URL: "https://env.example/EWS" }, async () => {
+    const [config] = await loadAccounts();
+    useConfig(config);
+
+    assertEquals(env("EWS_URL"), "https://env.example/EWS");
+    assertEquals(config.shadowed, ["EWS_URL"]);
+  });
+});
+
+Deno.test("variables overriding several accounts are reported", async () => {
+  await withEnv(
+    { LGTM_PROFILE: "work,oss", LGTM_BACKEND: "graph", IMAP_HOST: "x" },
+    async () => {
+      const configs = await loadAccounts();
+
+      assertEquals(configs.map((c) => c.backend.value), ["graph", "graph"]);
+      assertEquals(sharedEnvConflicts(configs), [
+        "LGTM_BACKEND from the environment overrides profiles work, oss; unset it so each account uses its own value",
+        "IMAP_HOST from the environment overrides profiles oss; unset it so each account uses its own value",
+      ]);
+      assertEquals(sharedEnvConflicts(configs.slice(0, 1)), []);
+    },
+  );
+});
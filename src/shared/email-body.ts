@@ -0,0 +1,29 @@
+import type { SecurityAlertRef } from "./types.ts";
+import { extractMentions } from "./mentions.ts";
+
+const ALERT_LINK =
+  /https?:\/\/([\w.-]+)\/([\w.-]+\/[\w.-]+)\/security\/(dependabot|code-scanning|secret-scanning)\/(\d+)/g;
+
+export const extractAlertRefs = (text: string): SecurityAlertRef[] => {
+  const refs = new Map<string, SecurityAlertRef>();
+  for (const match of text.matchAll(ALERT_LINK)) {
+    refs.set(match[0], {
+      host: match[1].toLowerCase(),
+      repo: match[2],
+      tool: match[3] as SecurityAlertRef["tool"],
+      number: parseInt(match[4], 10),
+    });
+  }
+  return [...refs.values()];
+};
+
+// The parts of a body the processor needs; the body itself is not kept.
+export const bodyDetails = (
+  text: string,
+): { mentions: string[]; alerts?: SecurityAlertRef[] } => {
+  const alerts = extractAlertRefs(text);
+  return {
+    mentions: extractMentions(text),
+    alerts: alerts.length > 0 ? alerts : undefined,
+  };
+};
@@ -0,0 +1,72 @@
+import type { UnifiedEmail } from "./types.ts";
+
+export type EmailKind =
+  | "pr"
+  | "issue"
+  | "discussion"
+  | "security-alert"
+  | "release"
+  | "ci"
+  | "account"
+  | "other";
+
+export const EMAIL_KIND_LABELS: Record<EmailKind, string> = {
+  pr: "PR",
+  issue: "issue",
+  discussion: "discussion",
+  "security-alert": "security alert",
+  release: "release",
+  ci: "CI",
+  account: "account",
+  other: "other",
+};
+
+const CI_PATTERNS = [
+  /Run failed/i,
+  /Run succeeded/i,
+  /Run cancelled/i,
+  /Run skipped/i,
+  /workflow run/i,
+];
+
+const SECURITY_PATTERNS = [
+  /Dependabot alert/i,
+  /code scanning alert/i,
+  /secret scanning alert/i,
+  /security advisory/i,
+];
+
+// "[owner/repo] Release v1.2.0 - Title"
+const RELEASE_PATTERN = /^\[[^\]]+\] Release\b/i;
+// "[owner/repo] Title (Discussion #12)"
+const DISCUSSION_PATTERN = /\(Discussion #(\d+)\)/i;
+// "[GitHub] A third-party OAuth application has been added to your account"
+const ACCOUNT_PATTERN = /^\[GitHub\]/i;
+
+export const discussionNumberOf = (email: UnifiedEmail): number | undefined => {
+  if (email.discussionNumber || email.threadKind) return email.discussionNumber;
+  const match = email.subject.match(DISCUSSION_PATTERN);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+export const classifyEmail = (email: UnifiedEmail): EmailKind => {
+  const { subject } = email;
+
+  if (email.githubReason === "security_alert") return "security-alert";
+  if (email.repo && discussionNumberOf(email)) return "discussion";
+  if (email.repo && email.prNumber) return "pr";
+  if (email.repo && email.issueNumber) return "issue";
+  if (email.alerts || SECURITY_PATTERNS.some((p) => p.test(subject))) {
+    return "security-alert";
+  }
+  if (email.threadKind === "release" || RELEASE_PATTERN.test(subject)) {
+    return "release";
+  }
+  if (
+    email.threadKind === "actions" || CI_PATTERNS.some((p) => p.test(subject))
+  ) {
+    return "ci";
+  }
+  if (ACCOUNT_PATTERN.test(subject)) return "account";
+  return "other";
+};
@@ -0,0 +1,252 @@
+import { env, ghEnv, perAccount } from "./config.ts";
+import { defaultHost } from "./github-hosts.ts";
+
+// PRs per query; GitHub caps a query's node count, and 50 PRs with their
+// reviews and review requests stays well below it.
+export const GRAPHQL_BATCH_SIZE = 50;
+
+// LGTM_GRAPHQL_URL points every host at one endpoint, e.g. a local stub.
+const graphqlEndpoint = (host: string): string =>
+  env("LGTM_GRAPHQL_URL") ??
+    (host === "github.com"
+      ? "https://api.github.com/graphql"
+      : `https://${host}/api/graphql`);
+
+const tokenState = perAccount(() => new Map<string, Promise<string>>());
+
+// GITHUB_TOKEN for the default host, otherwise whatever gh is logged in with.
+export const getGitHubToken = (host = defaultHost()): Promise<string> => {
+  const state = tokenState();
+  if (!state.has(host)) {
+    state.set(
+      host,
+      (async () => {
+        const token = host === defaultHost() ? env("GITHUB_TOKEN") : undefined;
+        if (token) return token;
+
+        const cmd = new Deno.Command("gh", {
+          env: ghEnv(host),
+          args: ["auth", "token", "--hostname", host],
+          stdout: "piped",
+          stderr: "piped",
+        });
+        const { code, stdout, stderr } = await cmd.output();
+        if (code !== 0) {
+          throw new Error(
+            `No GitHub token for ${host}: set GITHUB_TOKEN or run gh auth login (${
+              new TextDecoder().decode(stderr).trim()
+            })`,
+          );
+        }
+        return new TextDecoder().decode(stdout).trim();
+      })(),
+    );
+  }
+  return state.get(host)!;
+};
+
+type GraphQLResponse<T> = {
+  data?: T;
+  errors?: Array<{ message: string; path?: Array<string | number> }>;
+};
+
+export const graphql = async <T>(
+  host: string,
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<GraphQLResponse<T>> => {
+  const response = await fetch(graphqlEndpoint(host), {
+    method: "POST",
+    headers: {
+      Authorization: `bearer ${await getGitHubToken(host)}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`GitHub GraphQL error: ${response.status} ${error}`);
+  }
+  const result: GraphQLResponse<T> = await response.json();
+  if (!result.data && result.errors) {
+    throw new Error(
+      `GitHub GraphQL error: ${result.errors.map((e) => e.message).join("; ")}`,
+    );
+  }
+  return result;
+};
+
+const PR_FRAGMENT = `fragment pr on PullRequest {
+  state isDraft title body mergeable reviewDecision baseRefName headRefOid
+  author { login }
+  autoMergeRequest { enabledAt }
+  baseRef {
+    branchProtectionRule {
+      requiresApprovingReviews requiredApprovingReviewCount
+      requiresCodeOwnerReviews dismissesStaleReviews
+    }
+  }
+  labels(first: 50) { nodes { name } }
+  assignees(first: 20) { nodes { login } }
+  comments(first: 100) { nodes { body author { login } } }
+  reviews(first: 100) { nodes { state body author { login } commit { oid } } }
+  reviewThreads(first: 30) {
+    nodes { comments(first: 20) { nodes { body author { login } } } }
+  }
+  timelineItems(first: 50, itemTypes: [REVIEW_REQUESTED_EVENT]) {
+    nodes { ... on ReviewRequestedEvent { requestedReviewer { ...reviewer } } }
+  }
+  reviewRequests(first: 50) {
+    nodes { requestedReviewer { ...reviewer } }
+  }
+}
+fragment reviewer on RequestedReviewer {
+  ... on User { login }
+  ... on Bot { login }
+  ... on Mannequin { login }
+  ... on Team { name combinedSlug }
+}`;
+
+type GraphQLComment = { body: string; author: { login: string } | null };
+
+type GraphQLReviewer = {
+  login?: string;
+  name?: string;
+  combinedSlug?: string;
+} | null;
+
+type GraphQLPr = {
+  state: string;
+  isDraft: boolean;
+  title: string;
+  body: string;
+  mergeable: string;
+  reviewDecision: string | null;
+  baseRefName: string;
+  headRefOid: string;
+  author: { login: string } | null;
+  autoMergeRequest: { enabledAt: string } | null;
+  baseRef: {
+    branchProtectionRule: {
+      requiresApprovingReviews: boolean;
+      requiredApprovingReviewCount: number | null;
+      requiresCodeOwnerReviews: boolean;
+      dismissesStaleReviews: boolean;
+    } | null;
+  } | null;
+  labels: { nodes: Array<{ name: string }> };
+  assignees: { nodes: Array<{ login: string }> };
+  comments: { nodes: GraphQLComment[] };
+  reviews: {
+    nodes: Array<
+      GraphQLComment & { state: string; commit: { oid: string } | null }
+    >;
+  };
+  reviewThreads: { nodes: Array<{ comments: { nodes: GraphQLComment[] } }> };
+  timelineItems: { nodes: Array<{ requestedReviewer?: GraphQLReviewer }> };
+  reviewRequests: { nodes: Array<{ requestedReviewer: GraphQLReviewer }> };
+};
+
+const toReviewRequest = (
+  r: GraphQLReviewer | undefined,
+): Array<{ login?: string; name?: string; slug?: string }> =>
+  !r
+    ? []
+    : r.combinedSlug
+    ? [{ name: r.name, slug: r.combinedSlug }]
+    : [{ login: r.login }];
+
+// Same shape as the REST protection lookup in branch-protection.ts. Null
+// when the branch has no rule; undefined when the base branch is gone.
+const toBranchProtection = (baseRef: GraphQLPr["baseRef"]) => {
+  if (!baseRef) return undefined;
+  const rule = baseRef.branchProtectionRule;
+  return rule && {
+    approvals: rule.requiresApprovingReviews
+      ? rule.requiredApprovingReviewCount
+      : 0,
+    codeOwners: rule.requiresCodeOwnerReviews,
+    dismissStale: rule.dismissesStaleReviews,
+  };
+};
+
+const toComment = (c: GraphQLComment) => ({
+  author: c.author ?? { login: "ghost" },
+  body: c.body,
+});
+
+// Reshapes a GraphQL node into what `gh pr view --json PR_FIELDS` prints, so
+// cache entries and their readers don't care which one fetched them. Review
+// comments, past review requests and the base branch's protection rule are
+// extra; gh has no field for them.
+const toPrView = (pr: GraphQLPr) => ({
+  state: pr.state,
+  isDraft: pr.isDraft,
+  author: { login: pr.author?.login ?? "ghost" },
+  title: pr.title,
+  body: pr.body,
+  reviewRequests: pr.reviewRequests.nodes.flatMap((n) =>
+    toReviewRequest(n.requestedReviewer)
+  ),
+  autoMergeRequest: pr.autoMergeRequest,
+  reviews: pr.reviews.nodes.map((r) => ({
+    ...toComment(r),
+    state: r.state,
+    commit: r.commit,
+  })),
+  reviewDecision: pr.reviewDecision ?? "",
+  labels: pr.labels.nodes,
+  mergeable: pr.mergeable,
+  baseRefName: pr.baseRefName,
+  headRefOid: pr.headRefOid,
+  branchProtection: toBranchProtection(pr.baseRef),
+  assignees: pr.assignees.nodes,
+  comments: pr.comments.nodes.map(toComment),
+  reviewComments: pr.reviewThreads.nodes.flatMap((t) =>
+    t.comments.nodes.map(toComment)
+  ),
+  pastReviewRequests: pr.timelineItems.nodes.flatMap((n) =>
+    toReviewRequest(n.requestedReviewer)
+  ),
+});
+
+export type PrViewResult =
+  | { ok: true; data: string }
+  | { ok: false; error: string };
+
+// Fetches up to GRAPHQL_BATCH_SIZE PRs from one host in a single query, one
+// aliased repository { pullRequest } per PR. Results are in input order.
+export const fetchPrViews = async (
+  host: string,
+  prs: Array<{ repo: string; number: number }>,
+): Promise<PrViewResult[]> => {
+  const variables: Record<string, unknown> = {};
+  const params: string[] = [];
+  const fields = prs.map(({ repo, number }, i) => {
+    const [owner, name] = repo.split("/");
+    variables[`o${i}`] = owner;
+    variables[`n${i}`] = name;
+    variables[`p${i}`] = number;
+    params.push(`$o${i}: String!, $n${i}: String!, $p${i}: Int!`);
+    return `pr${i}: repository(owner: $o${i}, name: $n${i}) {
+    pullRequest(number: $p${i}) { ...pr }
+  }`;
+  });
+  const query = `query(${params.join(", ")}) {\n  ${
+    fields.join("\n  ")
+  }\n}\n${PR_FRAGMENT}`;
+
+  const { data, errors } = await graphql<
+    Record<string, { pullRequest: GraphQLPr | null } | null>
+  >(host, query, variables);
+
+  return prs.map(({ repo, number }, i) => {
+    const pr = data?.[`pr${i}`]?.pullRequest;
+    if (pr) return { ok: true, data: JSON.stringify(toPrView(pr)) };
+    const error = errors?.find((e) => e.path?.[0] === `pr${i}`)?.message;
+    return {
+      ok: false,
+      error: error ?? `Could not resolve to a PullRequest: ${repo}#${number}`,
+    };
+  });
+};
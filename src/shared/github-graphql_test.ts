@@ -0,0 +1,170 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { defaultHost } from "./github-hosts.ts";
+import { fetchPrViews } from "./github-graphql.ts";
+
+type Request = {
+  url: string;
+  authorization: string | null;
+  query: string;
+  variables: Record<string, unknown>;
+};
+
+// Answers every GraphQL request at LGTM_GRAPHQL_URL with the given body.
+const withGraphQL = async (
+  body: unknown,
+  fn: (requests: Request[]) => Promise<void>,
+) => {
+  const vars = {
+    LGTM_GRAPHQL_URL: "http://graphql.test/graphql",
+    GITHUB_TOKEN: "gh-token",
+  };
+  const saved = Object.keys(vars).map((name) => [name, Deno.env.get(name)]);
+  for (const [name, value] of Object.entries(vars)) Deno.env.set(name, value);
+  const originalFetch = globalThis.fetch;
+  const requests: Request[] = [];
+  globalThis.fetch = (input, init) => {
+    const { query, variables } = JSON.parse(String(init?.body));
+    requests.push({
+      url: String(input),
+      authorization: new Headers(init?.headers).get("Authorization"),
+      query,
+      variables,
+    });
+    return Promise.resolve(Response.json(body));
+  };
+
+  try {
+    await fn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name!);
+      else Deno.env.set(name!, value);
+    }
+  }
+};
+
+const node = {
+  state: "OPEN",
+  isDraft: false,
+  title: "Fix the thing",
+  body: "Fixes #1",
+  mergeable: "MERGEABLE",
+  reviewDecision: null,
+  baseRefName: "main",
+  headRefOid: "abc123",
+  author: null,
+  autoMergeRequest: null,
+  baseRef: {
+    branchProtectionRule: {
+      requiresApprovingReviews: true,
+      requiredApprovingReviewCount: 2,
+      requiresCodeOwnerReviews: false,
+      dismissesStaleReviews: true,
+    },
+  },
+  labels: { nodes: [{ name: "bug" }] },
+  assignees: { nodes: [{ login: "alice" }] },
+  comments: { nodes: [{ body: "Looks good", author: { login: "bob" } }] },
+  reviews: {
+    nodes: [{
+      state: "APPROVED",
+      body: "",
+      author: { login: "carol" },
+      commit: { oid: "abc123" },
+    }],
+  },
+  reviewThreads: {
+    nodes: [{ comments: { nodes: [{ body: "nit", author: null }] } }],
+  },
+  timelineItems: {
+    nodes: [{ requestedReviewer: { login: "dave" } }, {}],
+  },
+  reviewRequests: {
+    nodes: [
+      { requestedReviewer: { name: "Core", combinedSlug: "acme/core" } },
+      { requestedReviewer: { login: "erin" } },
+      { requestedReviewer: null },
+    ],
+  },
+};
+
+Deno.test("PRs are fetched in one aliased query in input order", async () => {
+  await withGraphQL({
+    data: { pr0: { pullRequest: node }, pr1: null },
+    errors: [{ message: "Could not resolve to a Repository", path: ["pr1"] }],
+  }, async (requests) => {
+    const results = await fetchPrViews(defaultHost(), [
+      { repo: "acme/widgets", number: 7 },
+      { repo: "acme/gone", number: 3 },
+    ]);
+
+    assertEquals(requests.length, 1);
+    assertEquals(requests[0].url, "http://graphql.test/graphql");
+    assertEquals(requests[0].authorization, "bearer gh-token");
+    assertEquals(requests[0].variables, {
+      o0: "acme",
+      n0: "widgets",
+      p0: 7,
+      o1: "acme",
+      n1: "gone",
+      p1: 3,
+    });
+    assertStringIncludes(
+      requests[0].query,
+      "pr1: repository(owner: $o1, name: $n1) {\n    pullRequest(number: $p1) { ...pr }",
+    );
+    assertEquals(results[0].ok, true);
+    assertEquals(results[1], {
+      ok: false,
+      error: "Could not resolve to a Repository",
+    });
+  });
+});
+
+Deno.test("a GraphQL PR is reshaped like gh pr view output", async () => {
+  await withGraphQL({ data: { pr0: { pullRequest: node } } }, async () => {
+    const [result] = await fetchPrViews(defaultHost(), [
+      { repo: "acme/widgets", number: 7 },
+    ]);
+    if (!result.ok) throw new Error(result.error);
+
+    assertEquals(JSON.parse(result.data), {
+      state: "OPEN",
+      isDraft: false,
+      author: { login: "ghost" },
+      title: "Fix the thing",
+      body: "Fixes #1",
+      reviewRequests: [{ name: "Core", slug: "acme/core" }, { login: "erin" }],
+      autoMergeRequest: null,
+      reviews: [{
+        author: { login: "carol" },
+        body: "",
+        state: "APPROVED",
+        commit: { oid: "abc123" },
+      }],
+      reviewDecision: "",
+      labels: [{ name: "bug" }],
+      mergeable: "MERGEABLE",
+      baseRefName: "main",
+      headRefOid: "abc123",
+      branchProtection: { approvals: 2, codeOwners: false, dismissStale: true },
+      assignees: [{ login: "alice" }],
+      comments: [{ author: { login: "bob" }, body: "Looks good" }],
+      reviewComments: [{ author: { login: "ghost" }, body: "nit" }],
+      pastReviewRequests: [{ login: "dave" }],
+    });
+  });
+});
+
+Deno.test("a missing PR without an error gets a generic one", async () => {
+  await withGraphQL({ data: { pr0: { pullRequest: null } } }, async () => {
+    assertEquals(
+      await fetchPrViews(defaultHost(), [{ repo: "acme/widgets", number: 7 }]),
+      [{
+        ok: false,
+        error: "Could not resolve to a PullRequest: acme/widgets#7",
+      }],
+    );
+  });
+});
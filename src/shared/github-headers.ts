@@ -0,0 +1,103 @@
+import type { BaseEmail, ThreadKind } from "./types.ts";
+import { getGitHubHosts, messageIdHost, senderHost } from "./github-hosts.ts";
+
+export const GITHUB_HEADER_NAMES = [
+  "X-GitHub-Reason",
+  "List-ID",
+  "Message-ID",
+] as const;
+
+export type GitHubHeaders = {
+  from?: string;
+  reason?: string;
+  listId?: string;
+  messageId?: string;
+};
+
+type GitHubThread = {
+  repo: string;
+  kind: ThreadKind;
+  number: number;
+};
+
+const THREAD_KINDS: Record<string, ThreadKind> = {
+  pull: "pull",
+  issues: "issue",
+  issue: "issue",
+  discussions: "discussion",
+  "repo-discussions": "discussion",
+  releases: "release",
+  actions: "actions",
+  "check-suites": "actions",
+};
+
+// "owner/repo <repo.owner.github.com>", or "<repo.owner.ghe.example.com>"
+export const repoFromListId = (value: string): string | null => {
+  const name = value.split("<")[0].trim();
+  if (/^[^/\s]+\/[^/\s]+$/.test(name)) return name;
+
+  const id = value.match(/<([^<>]+)>/)?.[1] ?? "";
+  for (const { host } of getGitHubHosts()) {
+    if (!id.toLowerCase().endsWith(`.${host}`)) continue;
+    const match = id.slice(0, -host.length - 1).match(/^(.+)\.([^.]+)$/);
+    if (match) return `${match[2]}/${match[1]}`;
+  }
+  return null;
+};
+
+// "<owner/repo/pull/123/c456@github.com>", "<owner/repo/issues/45@github.com>",
+// "<owner/repo/repo-discussions/7@github.com>", "<owner/repo/actions/runs/9@...>"
+export const threadFromMessageId = (value: string): GitHubThread | null => {
+  const match = value.trim().match(
+    /^<?([^/\s<>]+\/[^/\s<>]+)\/([\w-]+)\/(?:runs\/)?(\d+)[/@]/,
+  );
+  const kind = match ? THREAD_KINDS[match[2]] : undefined;
+  if (!match || !kind) return null;
+  return { repo: match[1], kind, number: parseInt(match[3], 10) };
+};
+
+// Header maps from splitMessage/parseHeaders use lower-cased names.
+export const headersFromRecord = (
+  headers: Record<string, string>,
+): GitHubHeaders => ({
+  from: headers["from"],
+  reason: headers["x-github-reason"],
+  listId: headers["list-id"],
+  messageId: headers["message-id"],
+});
+
+// Headers win over subject parsing, and tell issue threads apart from PRs.
+export const applyGitHubHeaders = <T extends BaseEmail>(
+  email: T,
+  headers: GitHubHeaders,
+): T => {
+  const reason = headers.reason?.trim().toLowerCase() || undefined;
+  const host = (headers.messageId && messageIdHost(headers.messageId)) ||
+    senderHost(headers.from) || email.host;
+  const thread = headers.messageId
+    ? threadFromMessageId(headers.messageId)
+    : null;
+
+  if (thread) {
+    return {
+      ...email,
+      repo: thread.repo,
+      prNumber: thread.kind === "pull" ? thread.number : null,
+      issueNumber: thread.kind === "issue" ? thread.number : undefined,
+      discussionNumber: thread.kind === "discussion"
+        ? thread.number
+        : undefined,
+      threadKind: thread.kind,
+      githubReason: reason,
+      host,
+    };
+  }
+
+  const repo = headers.listId ? repoFromListId(headers.listId) : null;
+  return {
+    ...email,
+    repo: repo ?? email.repo,
+    githubReason: reason,
+    host,
+  };
+};
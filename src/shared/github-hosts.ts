@@ -0,0 +1,59 @@
+import { getConfig, type GitHubHost } from "./config.ts";
+
+export const getGitHubHosts = (): GitHubHost[] => getConfig().hosts.value;
+
+// The host used when an email or PR doesn't name one.
+export const defaultHost = (): string => getGitHubHosts()[0].host;
+
+export const githubSenders = (): string[] =>
+  getGitHubHosts().map((h) => h.sender);
+
+// Matches a From header or address against the configured senders. Only the
+// address counts, not a display name that merely contains one.
+export const senderHost = (from: string | undefined): string | undefined => {
+  const lower = from?.toLowerCase();
+  if (!lower) return undefined;
+  const address = (lower.match(/<([^<>]*)>\s*$/)?.[1] ?? lower).trim();
+  return getGitHubHosts().find((h) => h.sender === address)?.host;
+};
+
+export const isGitHubSender = (from: string | undefined): boolean =>
+  senderHost(from) !== undefined;
+
+// "<owner/repo/pull/1@ghe.example.com>" -> "ghe.example.com", if configured.
+export const messageIdHost = (messageId: string): string | undefined => {
+  const domain = messageId.trim().match(/@([^@<>\s]+)>?$/)?.[1].toLowerCase();
+  return getGitHubHosts().find((h) => h.host === domain)?.host;
+};
+
+// Cache and lookup keys carry the host so two instances never collide.
+export const threadKey = (
+  repo: string,
+  number: number,
+  host = defaultHost(),
+): string => `${host}/${repo}#${number}`;
+
+export const hostOf = (email: { host?: string }): string =>
+  email.host ?? defaultHost();
+
+// "owner/repo#1" for the default host, "ghe.example.com/owner/repo#1" otherwise.
+export const threadLabel = (
+  repo: string,
+  number: number,
+  host = defaultHost(),
+): string =>
+  host === defaultHost() ? `${repo}#${number}` : threadKey(repo, number, host);
+
+export const parseThreadKey = (
+  key: string,
+): { host: string; repo: string; number: number } => {
+  const [path, number] = key.split("#");
+  const [host, ...repo] = path.split("/");
+  return { host, repo: repo.join("/"), number: parseInt(number, 10) };
+};
+
+export const prUrl = (
+  repo: string,
+  number: number,
+  host = defaultHost(),
+): string => `https://${host}/${repo}/pull/${number}`;
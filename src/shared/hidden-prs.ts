@@ -1,15 +1,10 @@
-import { ensureDir } from "@std/fs/ensure-dir";
 import { join } from "@std/path/join";
+import { getDataDir } from "./config.ts";
 import { cachedGhPrView, PR_FIELDS } from "./pr-cache.ts";
 
 const HIDDEN_FILE = "hidden.json";
 
-const getHiddenPath = async () => {
-  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? ".";
-  const dir = join(home, ".config", "lgtm-gtfo");
-  await ensureDir(dir);
-  return join(dir, HIDDEN_FILE);
-};
+const getHiddenPath = async () => join(await getDataDir(), HIDDEN_FILE);
 
 export const loadHiddenPrs = async (): Promise<Set<string>> => {
   try {
@@ -30,10 +25,13 @@ export const saveHiddenPrs = async (hidden: Set<string>): Promise<void> => {
   );
 };
 
-const parsePrUrl = (url: string): { repo: string; number: number } | null => {
-  const m = url.match(/github\.com\/([^/]+\/[^/]+)\/pull\/(\d+)/);
+// "https://ghe.example.com/owner/repo/pull/12" -> host, repo and number
+const parsePrUrl = (
+  url: string,
+): { host: string; repo: string; number: number } | null => {
+  const m = url.match(/^https?:\/\/([^/]+)\/([^/]+\/[^/]+)\/pull\/(\d+)/);
   if (!m) return null;
-  return { repo: m[1], number: parseInt(m[2], 10) };
+  return { host: m[1].toLowerCase(), repo: m[2], number: parseInt(m[3], 10) };
 };
 
 export const cleanupHidden = async (
@@ -52,6 +50,7 @@ export const cleanupHidden = async (
       parsed.number,
       PR_FIELDS,
       false,
+      parsed.host,
     );
     if (!result.ok) {
       hidden.delete(url);
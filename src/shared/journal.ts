@@ -0,0 +1,69 @@
+import { ensureDir } from "@std/fs/ensure-dir";
+import { join } from "@std/path/join";
+import { getConfigDir } from "./config.ts";
+import { isUndoable, type MailAction } from "./action.ts";
+import type { Backend } from "./backend.ts";
+
+export type JournalEmail = {
+  id: string;
+  originalId: string;
+  sourceFolder: string;
+  sourceLabel: string;
+  subject: string;
+  prKey?: string;
+  reason: string;
+  messageId?: string;
+  account?: string;
+};
+
+export type JournalRun = {
+  id: string;
+  createdAt: string;
+  backend: Backend;
+  // Config profile the run used, so undo reaches the same account.
+  profile?: string;
+  action: MailAction;
+  emails: JournalEmail[];
+  undoneAt?: string;
+};
+
+const getJournalDir = async (): Promise<string> => {
+  const dir = join(await getConfigDir(), "journal");
+  await ensureDir(dir);
+  return dir;
+};
+
+export const newRunId = (date = new Date()): string =>
+  date.toISOString().replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+
+export const saveJournalRun = async (run: JournalRun): Promise<void> => {
+  await Deno.writeTextFile(
+    join(await getJournalDir(), `${run.id}.json`),
+    JSON.stringify(run, null, 2),
+  );
+};
+
+export const listJournalRuns = async (): Promise<JournalRun[]> => {
+  const dir = await getJournalDir();
+  const runs: JournalRun[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+    try {
+      runs.push(JSON.parse(await Deno.readTextFile(join(dir, entry.name))));
+    } catch {
+      console.error(`Skipping unreadable journal file ${entry.name}`);
+    }
+  }
+  return runs.sort((a, b) => b.id.localeCompare(a.id));
+};
+
+// Without an ID, picks the most recent run that hasn't been undone yet and
+// whose action can be undone at all.
+export const findJournalRun = async (
+  runId?: string,
+): Promise<JournalRun | null> => {
+  const runs = await listJournalRuns();
+  return runId
+    ? runs.find((r) => r.id === runId) ?? null
+    : runs.find((r) => !r.undoneAt && isUndoable(r.action)) ?? null;
+};
@@ -0,0 +1,156 @@
+const decodeBytes = (bytes: Uint8Array, charset: string): string => {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+const decodeQuotedPrintable = (source: string, charset: string): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const hex = source.slice(i + 1, i + 3);
+    if (source[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(source.charCodeAt(i));
+    }
+  }
+  return decodeBytes(new Uint8Array(bytes), charset);
+};
+
+const decodeBase64 = (text: string, charset: string): string | null => {
+  try {
+    const binary = atob(text.replace(/\s+/g, ""));
+    return decodeBytes(
+      Uint8Array.from(binary, (c) => c.charCodeAt(0)),
+      charset,
+    );
+  } catch {
+    return null;
+  }
+};
+
+const decodeEncodedWord = (
+  charset: string,
+  encoding: string,
+  text: string,
+): string => {
+  if (encoding.toUpperCase() === "B") {
+    return decodeBase64(text, charset) ?? text;
+  }
+  return decodeQuotedPrintable(text.replace(/_/g, " "), charset);
+};
+
+const ENCODED_WORD = /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g;
+
+export const decodeHeaderValue = (value: string): string =>
+  value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(
+      ENCODED_WORD,
+      (_, charset, encoding, text) =>
+        decodeEncodedWord(charset, encoding, text),
+    );
+
+export const parseHeaders = (raw: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  const unfolded = raw.replace(/\r?\n[ \t]+/g, " ");
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim().toLowerCase();
+    if (name in headers) continue;
+    headers[name] = decodeHeaderValue(line.slice(idx + 1).trim());
+  }
+
+  return headers;
+};
+
+export const splitMessage = (
+  raw: string,
+): { headers: Record<string, string>; body: string } => {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return { headers: parseHeaders(raw), body: "" };
+  }
+  return {
+    headers: parseHeaders(raw.slice(0, match.index)),
+    body: raw.slice(match.index + match[0].length),
+  };
+};
+
+export const headerDateToIso = (value: string | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value.replace(/\s*\([^)]*\)\s*$/, ""));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const headerParam = (
+  value: string | undefined,
+  name: string,
+): string | undefined =>
+  value?.match(new RegExp(`\\b${name}="?([^";]+)"?`, "i"))?.[1];
+
+const decodeTransferEncoding = (
+  body: string,
+  encoding: string | undefined,
+  charset: string,
+): string => {
+  switch (encoding?.toLowerCase()) {
+    case "base64":
+      return decodeBase64(body, charset) ?? body;
+    case "quoted-printable":
+      return decodeQuotedPrintable(body.replace(/=\r?\n/g, ""), charset);
+    default:
+      return body;
+  }
+};
+
+export const stripHtml = (html: string): string =>
+  html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/(p|div|tr|li|blockquote)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// Returns the text/plain part of a MIME body, or stripped text/html if that is
+// all there is.
+export const extractTextBody = (
+  headers: Record<string, string>,
+  body: string,
+): string => {
+  const type = headers["content-type"] ?? "text/plain";
+
+  if (/^multipart\//i.test(type)) {
+    const boundary = headerParam(type, "boundary");
+    if (!boundary) return "";
+    const parts = body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter((part) => !part.startsWith("--"))
+      .map((part) => splitMessage(part.replace(/^\r?\n/, "")))
+      .map((part) => ({
+        type: part.headers["content-type"] ?? "text/plain",
+        text: extractTextBody(part.headers, part.body),
+      }))
+      .filter((part) => part.text.trim());
+    return (parts.find((p) => /^text\/plain/i.test(p.type)) ?? parts[0])
+      ?.text ?? "";
+  }
+
+  if (!/^text\//i.test(type)) return "";
+  const text = decodeTransferEncoding(
+    body,
+    headers["content-transfer-encoding"],
+    headerParam(type, "charset") ?? "utf-8",
+  );
+  return /^text\/html/i.test(type) ? stripHtml(text) : text;
+};
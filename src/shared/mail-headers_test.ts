@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import {
+  decodeHeaderValue,
+  extractTextBody,
+  headerDateToIso,
+  splitMessage,
+} from "./mail-headers.ts";
+
+Deno.test("encoded words are decoded and joined", () => {
+  assertEquals(
+    decodeHeaderValue("=?UTF-8?B?W2FjbWUvd2lkZ2V0c10gRml4IOKckw==?="),
+    "[acme/widgets] Fix ✓",
+  );
+  assertEquals(
+    decodeHeaderValue("=?iso-8859-1?Q?Caf=E9_au_lait?= now"),
+    "Café au lait now",
+  );
+  // Whitespace between two encoded words isn't part of the text.
+  assertEquals(
+    decodeHeaderValue("=?UTF-8?Q?Re:_[acme/widgets]?=\r\n =?UTF-8?Q?_Fix?="),
+    "Re: [acme/widgets] Fix",
+  );
+  assertEquals(decodeHeaderValue("=?UTF-8?B?!!!?="), "!!!");
+});
+
+Deno.test("headers are unfolded, lower-cased and first one wins", () => {
+  const { headers, body } = splitMessage(
+    "Subject: Re: [acme/widgets] A long\r\n\tsubject\r\n" +
+      "From: Bob <notifications@github.com>\r\n" +
+      "Received: first\r\nReceived: second\r\n\r\nHello\r\n",
+  );
+
+  assertEquals(headers, {
+    subject: "Re: [acme/widgets] A long subject",
+    from: "Bob <notifications@github.com>",
+    received: "first",
+  });
+  assertEquals(body, "Hello\r\n");
+});
+
+Deno.test("header dates become ISO strings", () => {
+  assertEquals(
+    headerDateToIso("Wed, 01 May 2024 12:30:00 +0200 (CEST)"),
+    "2024-05-01T10:30:00.000Z",
+  );
+  assertEquals(headerDateToIso("not a date"), null);
+  assertEquals(headerDateToIso(undefined), null);
+});
+
+Deno.test("the text/plain part of a multipart body wins", () => {
+  const body = [
+    "--b1",
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    "<p>@alice <b>html</b></p>",
+    "--b1",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    "@alice could you =",
+    "take a look? Caf=C3=A9",
+    "--b1--",
+    "",
+  ].join("\r\n");
+
+  assertEquals(
+    extractTextBody(
+      { "content-type": 'multipart/alternative; boundary="b1"' },
+      body,
+    ).trim(),
+    "@alice could you take a look? Café",
+  );
+});
+
+Deno.test("HTML-only and base64 bodies are decoded to text", () => {
+  assertEquals(
+    extractTextBody(
+      { "content-type": "text/html" },
+      "<p>Merged &amp; closed</p><style>p {}</style>",
+    ),
+    "Merged & closed\n",
+  );
+  assertEquals(
+    extractTextBody(
+      {
+        "content-type": "text/plain; charset=utf-8",
+        "content-transfer-encoding": "base64",
+      },
+      "QGFsaWNlIGxvb2tz\r\nIGdvb2Q=",
+    ),
+    "@alice looks good",
+  );
+  assertEquals(
+    extractTextBody({ "content-type": "image/png" }, "iVBORw0KGgo="),
+    "",
+  );
+});
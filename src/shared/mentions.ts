@@ -0,0 +1,15 @@
+// "@handle" or "@org/team", not part of an email address or a longer word.
+const MENTION_PATTERN =
+  /(?:^|[^\w@/`.])@([a-z\d](?:[a-z\d-]*[a-z\d])?(?:\/[a-z\d](?:[\w.-]*\w)?)?)/gi;
+
+// Quoted lines ("> ...") repeat earlier comments, so they are skipped.
+export const extractMentions = (text: string): string[] => {
+  const mentions = new Set<string>();
+  for (const line of text.split(/\r?\n|\u2028/)) {
+    if (line.trimStart().startsWith(">")) continue;
+    for (const match of line.matchAll(MENTION_PATTERN)) {
+      mentions.add(match[1].toLowerCase());
+    }
+  }
+  return [...mentions];
+};
@@ -1,5 +1,5 @@
-import { ensureDir } from "@std/fs/ensure-dir";
 import { join } from "@std/path/join";
+import { getDataDir } from "./config.ts";
 
 export type TokenResponse = {
   access_token: string;
@@ -17,15 +17,37 @@ export type StoredToken = {
 export type OAuthConfig = {
   clientId: string;
   clientName: string;
+  clientSecret?: string;
   scopes: string[];
   redirectUri: string;
   tokenFileName: string;
   useNativeRedirect: boolean;
+  authorizeUrl?: string;
+  tokenUrl?: string;
+  extraAuthParams?: Record<string, string>;
 };
 
 const TENANT = "organizations";
+const MICROSOFT_AUTHORITY =
+  `https://login.microsoftonline.com/${TENANT}/oauth2/v2.0`;
 const REDIRECT_PORT = 8400;
 
+const tokenUrlFor = (config: OAuthConfig): string =>
+  config.tokenUrl ?? `${MICROSOFT_AUTHORITY}/token`;
+
+const authorizeUrlFor = (config: OAuthConfig): string =>
+  config.authorizeUrl ?? `${MICROSOFT_AUTHORITY}/authorize`;
+
+const withClientSecret = (
+  config: OAuthConfig,
+  params: Record<string, string>,
+): URLSearchParams =>
+  new URLSearchParams(
+    config.clientSecret
+      ? { ...params, client_secret: config.clientSecret }
+      : params,
+  );
+
 export const generateCodeVerifier = (): string => {
   const array = new Uint8Array(32);
   crypto.getRandomValues(array);
@@ -47,19 +69,12 @@ export const generateCodeChallenge = async (
     .replace(/=/g, "");
 };
 
-export const getConfigDir = async (): Promise<string> => {
-  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? ".";
-  const configDir = join(home, ".config", "lgtm-gtfo");
-  await ensureDir(configDir);
-  return configDir;
-};
-
 export const loadStoredToken = async (
   tokenFileName: string,
 ): Promise<StoredToken | null> => {
   try {
-    const configDir = await getConfigDir();
-    const tokenPath = join(configDir, tokenFileName);
+    const dataDir = await getDataDir();
+    const tokenPath = join(dataDir, tokenFileName);
     const content = await Deno.readTextFile(tokenPath);
     return JSON.parse(content) as StoredToken;
   } catch {
@@ -71,8 +86,8 @@ export const saveToken = async (
   tokenFileName: string,
   token: StoredToken,
 ): Promise<void> => {
-  const configDir = await getConfigDir();
-  const tokenPath = join(configDir, tokenFileName);
+  const dataDir = await getDataDir();
+  const tokenPath = join(dataDir, tokenFileName);
   await Deno.writeTextFile(tokenPath, JSON.stringify(token, null, 2));
 };
 
@@ -80,8 +95,8 @@ export const clearStoredToken = async (
   tokenFileName: string,
 ): Promise<void> => {
   try {
-    const configDir = await getConfigDir();
-    const tokenPath = join(configDir, tokenFileName);
+    const dataDir = await getDataDir();
+    const tokenPath = join(dataDir, tokenFileName);
     await Deno.remove(tokenPath);
     console.log("Stored token cleared.");
   } catch {
@@ -154,21 +169,18 @@ export const exchangeCodeForToken = async (
   code: string,
   codeVerifier: string,
 ): Promise<TokenResponse> => {
-  const response = await fetch(
-    `https://login.microsoftonline.com/${TENANT}/oauth2/v2.0/token`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: new URLSearchParams({
-        client_id: config.clientId,
-        grant_type: "authorization_code",
-        code,
-        redirect_uri: config.redirectUri,
-        code_verifier: codeVerifier,
-        scope: config.scopes.join(" "),
-      }),
-    },
-  );
+  const response = await fetch(tokenUrlFor(config), {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: withClientSecret(config, {
+      client_id: config.clientId,
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: config.redirectUri,
+      code_verifier: codeVerifier,
+      scope: config.scopes.join(" "),
+    }),
+  });
 
   if (!response.ok) {
     const error = await response.text();
@@ -182,19 +194,16 @@ export const refreshAccessToken = async (
   config: OAuthConfig,
   refreshToken: string,
 ): Promise<TokenResponse> => {
-  const response = await fetch(
-    `https://login.microsoftonline.com/${TENANT}/oauth2/v2.0/token`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: new URLSearchParams({
-        client_id: config.clientId,
-        grant_type: "refresh_token",
-        refresh_token: refreshToken,
-        scope: config.scopes.join(" "),
-      }),
-    },
-  );
+  const response = await fetch(tokenUrlFor(config), {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: withClientSecret(config, {
+      client_id: config.clientId,
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      scope: config.scopes.join(" "),
+    }),
+  });
 
   if (!response.ok) {
     const error = await response.text();
@@ -208,15 +217,16 @@ export const buildAuthUrl = (
   config: OAuthConfig,
   codeChallenge: string,
 ): URL => {
-  const authUrl = new URL(
-    `https://login.microsoftonline.com/${TENANT}/oauth2/v2.0/authorize`,
-  );
+  const authUrl = new URL(authorizeUrlFor(config));
   authUrl.searchParams.set("client_id", config.clientId);
   authUrl.searchParams.set("response_type", "code");
   authUrl.searchParams.set("redirect_uri", config.redirectUri);
   authUrl.searchParams.set("scope", config.scopes.join(" "));
   authUrl.searchParams.set("code_challenge", codeChallenge);
   authUrl.searchParams.set("code_challenge_method", "S256");
+  for (const [key, value] of Object.entries(config.extraAuthParams ?? {})) {
+    authUrl.searchParams.set(key, value);
+  }
   return authUrl;
 };
 
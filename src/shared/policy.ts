@@ -0,0 +1,251 @@
+import { join } from "@std/path/join";
+import { globToRegExp } from "@std/path/glob-to-regexp";
+import { getConfigDir, parseConfigText } from "./config.ts";
+import { type MailAction, parseAction } from "./action.ts";
+import type { EmailKind } from "./email-kind.ts";
+
+const POLICY_FILES = [
+  "policy.toml",
+  "policy.yaml",
+  "policy.yml",
+  "policy.json",
+];
+
+export type Involvement =
+  | "author"
+  | "assigned"
+  | "review-requested"
+  | "team-review-requested"
+  | "reviewed"
+  | "mentioned"
+  | "team-mentioned";
+
+// What a rule can match on, gathered per email by the processor.
+export type EmailFacts = {
+  kind: EmailKind;
+  repo: string | null;
+  folder: string;
+  states: string[];
+  author?: string;
+  labels: string[];
+  involvement: Involvement[];
+  ageDays: number;
+};
+
+export type PolicyRule = {
+  label: string;
+  repo?: RegExp[];
+  folder?: RegExp[];
+  kind?: string[];
+  state?: string[];
+  author?: RegExp[];
+  labels?: string[];
+  involvement?: string[];
+  minAgeDays: number;
+  action: MailAction | "keep";
+};
+
+export type Policy = {
+  path: string;
+  rules: PolicyRule[];
+};
+
+const KINDS = [
+  "pr",
+  "issue",
+  "discussion",
+  "security-alert",
+  "release",
+  "ci",
+  "account",
+  "other",
+];
+
+const STATES = [
+  "open",
+  "draft",
+  "closed",
+  "merged",
+  "completed",
+  "not-planned",
+  "answered",
+  "fixed",
+  "dismissed",
+  "auto-dismissed",
+  "resolved",
+];
+
+const INVOLVEMENTS = [
+  "author",
+  "assigned",
+  "review-requested",
+  "team-review-requested",
+  "reviewed",
+  "mentioned",
+  "team-mentioned",
+  "none",
+];
+
+const RULE_KEYS = new Set([
+  "name",
+  "repo",
+  "folder",
+  "kind",
+  "state",
+  "author",
+  "labels",
+  "involvement",
+  "min_age_days",
+  "action",
+]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const validateRule = (
+  raw: unknown,
+  index: number,
+  errors: string[],
+): PolicyRule | null => {
+  const where = `rule ${index + 1}`;
+  if (!isRecord(raw)) {
+    errors.push(`${where}: must be a table/object`);
+    return null;
+  }
+
+  const label = typeof raw.name === "string"
+    ? `"${raw.name}"`
+    : `#${index + 1}`;
+  const at = `rule ${label}`;
+
+  for (const key of Object.keys(raw)) {
+    if (!RULE_KEYS.has(key)) errors.push(`${at}: unknown key "${key}"`);
+  }
+
+  const list = (field: string, allowed?: string[]): string[] | undefined => {
+    const value = raw[field];
+    if (value === undefined) return undefined;
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0 || !values.every((v) => typeof v === "string")) {
+      errors.push(`${at}: "${field}" must be a string or a list of strings`);
+      return undefined;
+    }
+    const lower = values.map((v: string) => v.toLowerCase());
+    for (const v of lower) {
+      if (allowed && !allowed.includes(v)) {
+        errors.push(
+          `${at}: unknown ${field} "${v}" (expected ${allowed.join(", ")})`,
+        );
+      }
+    }
+    return lower;
+  };
+
+  const globs = (field: string): RegExp[] | undefined =>
+    list(field)?.map((glob) => globToRegExp(glob, { caseInsensitive: true }));
+
+  let action: MailAction | "keep" = "keep";
+  if (typeof raw.action !== "string") {
+    errors.push(`${at}: "action" is required`);
+  } else if (raw.action !== "keep") {
+    try {
+      action = parseAction(raw.action);
+    } catch (e) {
+      errors.push(`${at}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  const minAge = raw.min_age_days ?? 0;
+  if (typeof minAge !== "number" || minAge < 0) {
+    errors.push(`${at}: "min_age_days" must be a non-negative number`);
+  }
+
+  return {
+    label,
+    repo: globs("repo"),
+    folder: globs("folder"),
+    kind: list("kind", KINDS),
+    state: list("state", STATES),
+    author: globs("author"),
+    labels: list("labels"),
+    involvement: list("involvement", INVOLVEMENTS),
+    minAgeDays: typeof minAge === "number" ? minAge : 0,
+    action,
+  };
+};
+
+export const validatePolicy = (
+  raw: unknown,
+): { rules: PolicyRule[]; errors: string[] } => {
+  const errors: string[] = [];
+  if (!isRecord(raw) || !Array.isArray(raw.rules)) {
+    return { rules: [], errors: ['expected a top-level "rules" list'] };
+  }
+  const rules = raw.rules
+    .map((rule, i) => validateRule(rule, i, errors))
+    .filter((rule): rule is PolicyRule => rule !== null);
+  return { rules, errors };
+};
+
+const findPolicyPath = async (): Promise<string | null> => {
+  const override = Deno.env.get("LGTM_POLICY");
+  if (override) return override;
+
+  const dir = await getConfigDir();
+  for (const name of POLICY_FILES) {
+    try {
+      await Deno.stat(join(dir, name));
+      return join(dir, name);
+    } catch {
+      // try the next format
+    }
+  }
+  return null;
+};
+
+export const loadPolicy = async (): Promise<Policy | null> => {
+  const path = await findPolicyPath();
+  if (!path) return null;
+
+  let raw: unknown;
+  try {
+    raw = parseConfigText(await Deno.readTextFile(path), path);
+  } catch (e) {
+    throw new Error(
+      `Failed to read policy ${path}: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+
+  const { rules, errors } = validatePolicy(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy ${path}:\n  - ${errors.join("\n  - ")}`);
+  }
+  return { path, rules };
+};
+
+const anyMatch = (patterns: RegExp[], value: string | null | undefined) =>
+  value != null && patterns.some((p) => p.test(value));
+
+const ruleMatches = (rule: PolicyRule, facts: EmailFacts): boolean =>
+  (!rule.repo || anyMatch(rule.repo, facts.repo)) &&
+  (!rule.folder || anyMatch(rule.folder, facts.folder)) &&
+  (!rule.kind || rule.kind.includes(facts.kind)) &&
+  (!rule.state || rule.state.some((s) => facts.states.includes(s))) &&
+  (!rule.author || anyMatch(rule.author, facts.author)) &&
+  (!rule.labels || rule.labels.some((l) => facts.labels.includes(l))) &&
+  (!rule.involvement ||
+    rule.involvement.some((i) =>
+      i === "none"
+        ? facts.involvement.length === 0
+        : facts.involvement.includes(i as Involvement)
+    ));
+
+// Rules are ordered; the first one that matches decides.
+export const matchRule = (
+  policy: Policy,
+  facts: EmailFacts,
+): PolicyRule | undefined =>
+  policy.rules.find((rule) => ruleMatches(rule, facts));
+
+export const policyActions = (policy: Policy): MailAction[] =>
+  policy.rules.flatMap((rule) => rule.action === "keep" ? [] : [rule.action]);
@@ -0,0 +1,97 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  type EmailFacts,
+  matchRule,
+  type Policy,
+  validatePolicy,
+} from "./policy.ts";
+
+const facts = (overrides: Partial<EmailFacts> = {}): EmailFacts => ({
+  kind: "pr",
+  repo: "acme/widgets",
+  folder: "INBOX",
+  states: ["merged"],
+  labels: [],
+  involvement: [],
+  ageDays: 0,
+  ...overrides,
+});
+
+const policyOf = (rules: unknown[]): Policy => {
+  const { rules: parsed, errors } = validatePolicy({ rules });
+  assertEquals(errors, []);
+  return { path: "policy.json", rules: parsed };
+};
+
+const matched = (policy: Policy, email: EmailFacts) =>
+  matchRule(policy, email)?.label;
+
+Deno.test("repo globs match case-insensitively within one path segment", () => {
+  const policy = policyOf([{ name: "acme", repo: "Acme/*", action: "trash" }]);
+
+  assertEquals(matched(policy, facts()), '"acme"');
+  assertEquals(matched(policy, facts({ repo: "other/widgets" })), undefined);
+  assertEquals(matched(policy, facts({ repo: null })), undefined);
+});
+
+Deno.test("folder globs with ** cross path separators", () => {
+  const policy = policyOf([{ folder: "github/**", action: "archive" }]);
+
+  assertEquals(matched(policy, facts({ folder: "github/ci/builds" })), "#1");
+  assertEquals(matched(policy, facts({ folder: "INBOX" })), undefined);
+});
+
+Deno.test("the first matching rule decides", () => {
+  const policy = policyOf([
+    { name: "keep mine", involvement: "author", action: "keep" },
+    { name: "merged", state: "merged", action: "trash" },
+    { name: "everything", action: "archive" },
+  ]);
+
+  assertEquals(
+    matched(policy, facts({ involvement: ["author"] })),
+    '"keep mine"',
+  );
+  assertEquals(matched(policy, facts()), '"merged"');
+  assertEquals(matched(policy, facts({ states: ["open"] })), '"everything"');
+});
+
+Deno.test("involvement none matches only uninvolved emails", () => {
+  const policy = policyOf([{ involvement: "none", action: "trash" }]);
+
+  assertEquals(matched(policy, facts()), "#1");
+  assertEquals(
+    matched(policy, facts({ involvement: ["mentioned"] })),
+    undefined,
+  );
+});
+
+// The processor keeps emails younger than the matching rule's min_age_days;
+// they must not fall through to a later rule.
+Deno.test("min_age_days leaves young emails with their first match", () => {
+  const policy = policyOf([
+    { name: "old", min_age_days: 30, action: "trash" },
+    { name: "any", action: "archive" },
+  ]);
+
+  assertEquals(policy.rules.map((rule) => rule.minAgeDays), [30, 0]);
+  assertEquals(matched(policy, facts({ ageDays: 2 })), '"old"');
+});
+
+Deno.test("invalid rules report every problem", () => {
+  const { errors } = validatePolicy({
+    rules: [
+      { name: "bad", kind: "wiki", min_age_days: -1, colour: "red" },
+      "not a rule",
+      { action: "move:" },
+    ],
+  });
+
+  assertEquals(errors.length, 6);
+  assertStringIncludes(errors[0], 'rule "bad": unknown key "colour"');
+  assertStringIncludes(errors[1], '"action" is required');
+  assertStringIncludes(errors[2], '"min_age_days" must be a non-negative');
+  assertStringIncludes(errors[3], 'rule "bad": unknown kind "wiki"');
+  assertStringIncludes(errors[4], "rule 2: must be a table/object");
+  assertStringIncludes(errors[5], "rule #3: Invalid action 'move:'");
+});
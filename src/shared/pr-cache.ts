@@ -1,5 +1,7 @@
-import { ensureDir } from "@std/fs/ensure-dir";
 import { join } from "@std/path/join";
+import { getDataDir, ghEnv, perAccount } from "./config.ts";
+import { defaultHost, threadKey } from "./github-hosts.ts";
+import { fetchPrViews, GRAPHQL_BATCH_SIZE } from "./github-graphql.ts";
 
 const CACHE_FILE = "pr-cache.json";
 const TTL_OPEN_MS = 15 * 60 * 1000;
@@ -7,7 +9,10 @@ const TTL_TERMINAL_MS = 7 * 24 * 60 * 60 * 1000;
 const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
 
 export const PR_FIELDS =
-  "state,isDraft,author,title,body,reviewRequests,autoMergeRequest,reviews,reviewDecision";
+  "state,isDraft,author,title,body,reviewRequests,autoMergeRequest,reviews,reviewDecision,labels,mergeable,assignees,comments,baseRefName,headRefOid";
+
+export const ISSUE_FIELDS =
+  "state,stateReason,author,title,body,assignees,labels";
 
 type CacheEntry = {
   data: string;
@@ -15,8 +20,17 @@ type CacheEntry = {
   state?: string;
 };
 
+const TERMINAL_STATES = new Set([
+  "MERGED",
+  "CLOSED",
+  "FIXED",
+  "DISMISSED",
+  "AUTO_DISMISSED",
+  "RESOLVED",
+]);
+
 const isTerminal = (state?: string): boolean =>
-  state === "MERGED" || state === "CLOSED";
+  state !== undefined && TERMINAL_STATES.has(state);
 
 const ttlFor = (state?: string): number =>
   isTerminal(state) ? TTL_TERMINAL_MS : TTL_OPEN_MS;
@@ -30,17 +44,18 @@ const extractState = (data: string): string | undefined => {
   }
 };
 
-const cache = new Map<string, CacheEntry>();
-const state = { loaded: false, hits: 0, misses: 0 };
+// Each account has its own cache file, loaded on first use.
+const getState = perAccount(() => ({
+  cache: new Map<string, CacheEntry>(),
+  loaded: false,
+  hits: 0,
+  misses: 0,
+}));
 
-const getCachePath = async () => {
-  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? ".";
-  const dir = join(home, ".config", "lgtm-gtfo");
-  await ensureDir(dir);
-  return join(dir, CACHE_FILE);
-};
+const getCachePath = async () => join(await getDataDir(), CACHE_FILE);
 
 export const loadPrCache = async (): Promise<void> => {
+  const state = getState();
   if (state.loaded) return;
   state.loaded = true;
   try {
@@ -54,7 +69,7 @@ export const loadPrCache = async (): Promise<void> => {
       if (!isTerminal(entryState) && now - v.cachedAt > TTL_OPEN_MS * 4) {
         continue;
       }
-      cache.set(k, { ...v, state: entryState });
+      state.cache.set(k, { ...v, state: entryState });
     }
   } catch {
     // no cache yet
@@ -62,7 +77,8 @@ export const loadPrCache = async (): Promise<void> => {
 };
 
 export const savePrCache = async (): Promise<void> => {
-  if (!state.loaded) return;
+  const { cache, loaded } = getState();
+  if (!loaded) return;
   const path = await getCachePath();
   const obj: Record<string, CacheEntry> = {};
   for (const [k, v] of cache) obj[k] = v;
@@ -70,7 +86,7 @@ export const savePrCache = async (): Promise<void> => {
 };
 
 export const clearPrCache = async (): Promise<void> => {
-  cache.clear();
+  getState().cache.clear();
   try {
     const path = await getCachePath();
     await Deno.remove(path);
@@ -79,12 +95,13 @@ export const clearPrCache = async (): Promise<void> => {
   }
 };
 
-export const getPrCacheStats = (): { hits: number; misses: number } => ({
-  hits: state.hits,
-  misses: state.misses,
-});
+export const getPrCacheStats = (): { hits: number; misses: number } => {
+  const { hits, misses } = getState();
+  return { hits, misses };
+};
 
 export const printPrCacheStats = (): void => {
+  const state = getState();
   const total = state.hits + state.misses;
   if (total === 0) return;
   const pct = Math.round((state.hits / total) * 100);
@@ -97,14 +114,17 @@ export type GhPrViewResult =
   | { ok: true; data: string; cached: boolean }
   | { ok: false; error: string };
 
-export const cachedGhPrView = async (
-  repo: string,
-  prNumber: number,
-  fields: string,
+// Runs a gh command whose JSON output has a top-level "state", caching it
+// under `key` with the same TTLs as PRs.
+export const cachedGh = async (
+  key: string,
+  args: string[],
   force: boolean,
+  host?: string,
 ): Promise<GhPrViewResult> => {
   await loadPrCache();
-  const key = `${repo}#${prNumber}#${fields}`;
+  const state = getState();
+  const { cache } = state;
   if (!force) {
     const entry = cache.get(key);
     if (entry && Date.now() - entry.cachedAt <= ttlFor(entry.state)) {
@@ -114,7 +134,8 @@ export const cachedGhPrView = async (
   }
   state.misses++;
   const cmd = new Deno.Command("gh", {
-    args: ["pr", "view", String(prNumber), "--repo", repo, "--json", fields],
+    env: ghEnv(host),
+    args,
     stdout: "piped",
     stderr: "piped",
   });
@@ -126,3 +147,105 @@ export const cachedGhPrView = async (
   cache.set(key, { data, cachedAt: Date.now(), state: extractState(data) });
   return { ok: true, data, cached: false };
 };
+
+export const cachedGhPrView = (
+  repo: string,
+  prNumber: number,
+  fields: string,
+  force: boolean,
+  host?: string,
+): Promise<GhPrViewResult> =>
+  cachedGh(
+    `${threadKey(repo, prNumber, host)}#${fields}`,
+    ["pr", "view", String(prNumber), "--repo", repo, "--json", fields],
+    force,
+    host,
+  );
+
+export const cachedGhIssueView = (
+  repo: string,
+  issueNumber: number,
+  fields: string,
+  force: boolean,
+  host?: string,
+): Promise<GhPrViewResult> =>
+  cachedGh(
+    `issue:${threadKey(repo, issueNumber, host)}#${fields}`,
+    ["issue", "view", String(issueNumber), "--repo", repo, "--json", fields],
+    force,
+    host,
+  );
+
+// Like cachedGhPrView for many PRs at once: cache misses are fetched through
+// GraphQL, GRAPHQL_BATCH_SIZE per query and host. If a query fails (no token,
+// network) the host's remaining PRs fall back to gh pr view. Keyed by
+// threadKey.
+export const cachedPrViews = async (
+  prs: Array<{ repo: string; number: number; host?: string }>,
+  force: boolean,
+): Promise<Map<string, GhPrViewResult>> => {
+  await loadPrCache();
+  const state = getState();
+  const results = new Map<string, GhPrViewResult>();
+  const missesByHost = new Map<
+    string,
+    Array<{ repo: string; number: number }>
+  >();
+
+  for (const { repo, number, host = defaultHost() } of prs) {
+    const key = threadKey(repo, number, host);
+    if (results.has(key)) continue;
+    const entry = force ? undefined : state.cache.get(`${key}#${PR_FIELDS}`);
+    if (entry && Date.now() - entry.cachedAt <= ttlFor(entry.state)) {
+      state.hits++;
+      results.set(key, { ok: true, data: entry.data, cached: true });
+      continue;
+    }
+    // Placeholder so duplicates in `prs` are only fetched once.
+    results.set(key, { ok: false, error: "not fetched" });
+    missesByHost.set(host, [
+      ...(missesByHost.get(host) ?? []),
+      { repo, number },
+    ]);
+  }
+
+  for (const [host, misses] of missesByHost) {
+    for (let i = 0; i < misses.length; i += GRAPHQL_BATCH_SIZE) {
+      const batch = misses.slice(i, i + GRAPHQL_BATCH_SIZE);
+      let views;
+      try {
+        views = await fetchPrViews(host, batch);
+      } catch (e) {
+        console.error(
+          `Batched PR lookup on ${host} failed, falling back to gh pr view: ${
+            e instanceof Error ? e.message : e
+          }`,
+        );
+        for (const { repo, number } of misses.slice(i)) {
+          results.set(
+            threadKey(repo, number, host),
+            await cachedGhPrView(repo, number, PR_FIELDS, true, host),
+          );
+        }
+        break;
+      }
+      batch.forEach(({ repo, number }, j) => {
+        const view = views[j];
+        const key = threadKey(repo, number, host);
+        state.misses++;
+        if (!view.ok) {
+          results.set(key, view);
+          return;
+        }
+        state.cache.set(`${key}#${PR_FIELDS}`, {
+          data: view.data,
+          cachedAt: Date.now(),
+          state: extractState(view.data),
+        });
+        results.set(key, { ok: true, data: view.data, cached: false });
+      });
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,37 @@
+import { join } from "@std/path/join";
+import { getDataDir } from "./config.ts";
+
+export type FolderSyncState<T> = {
+  token: string;
+  syncedAt: number;
+  emails: Record<string, T>;
+};
+
+export type SyncStore<T> = {
+  folders: Record<string, FolderSyncState<T>>;
+};
+
+const getSyncPath = async (fileName: string): Promise<string> =>
+  join(await getDataDir(), fileName);
+
+export const loadSyncStore = async <T>(
+  fileName: string,
+): Promise<SyncStore<T>> => {
+  try {
+    const text = await Deno.readTextFile(await getSyncPath(fileName));
+    const store = JSON.parse(text) as SyncStore<T>;
+    return { folders: store.folders ?? {} };
+  } catch {
+    return { folders: {} };
+  }
+};
+
+export const saveSyncStore = async <T>(
+  fileName: string,
+  store: SyncStore<T>,
+): Promise<void> => {
+  await Deno.writeTextFile(
+    await getSyncPath(fileName),
+    JSON.stringify(store),
+  );
+};
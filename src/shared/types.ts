@@ -1,17 +1,49 @@
+export type FetchOptions = {
+  fullSync?: boolean;
+};
+
+export type ThreadKind =
+  | "pull"
+  | "issue"
+  | "discussion"
+  | "release"
+  | "actions";
+
+export type SecurityAlertRef = {
+  host?: string;
+  repo: string;
+  tool: "dependabot" | "code-scanning" | "secret-scanning";
+  number: number;
+};
+
 export type BaseEmail = {
   id: string;
   subject: string;
   receivedDateTime: string;
   repo: string | null;
   prNumber: number | null;
+  // GitHub instance the email came from; unset means the default host.
+  host?: string;
+  issueNumber?: number;
+  discussionNumber?: number;
+  threadKind?: ThreadKind;
+  githubReason?: string;
+  mentions?: string[];
+  alerts?: SecurityAlertRef[];
 };
 
 export type GraphEmail = BaseEmail & {
   webLink: string;
+  categories?: string[];
+  folderId?: string;
+  mailbox?: string;
 };
 
 export type EwsEmail = BaseEmail & {
   changeKey: string;
+  categories?: string[];
+  folderId?: string;
+  mailbox?: string;
 };
 
 export type MailAppEmail = BaseEmail & {
@@ -20,10 +52,42 @@ export type MailAppEmail = BaseEmail & {
   account: string;
 };
 
+export type ImapEmail = BaseEmail & {
+  messageId?: string;
+  mailbox: string;
+};
+
+export type MaildirEmail = BaseEmail & {
+  messageId?: string;
+  mailbox: string;
+};
+
+export type MboxEmail = BaseEmail & {
+  messageId?: string;
+  mailbox: string;
+};
+
+export type GmailEmail = BaseEmail & {
+  messageId?: string;
+  mailbox: string;
+};
+
+export type JmapEmail = BaseEmail & {
+  messageId?: string;
+  mailbox: string;
+};
+
+export type NotificationEmail = BaseEmail & {
+  mailbox: string;
+  unread: boolean;
+};
+
 export type UnifiedEmail = BaseEmail & {
   changeKey?: string;
   messageId?: string;
   webLink?: string;
   mailbox?: string;
   account?: string;
+  categories?: string[];
+  folderId?: string;
 };
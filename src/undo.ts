@@ -0,0 +1,119 @@
+import { getBackend } from "./backends.ts";
+import { actionLabel, isUndoable } from "./shared/action.ts";
+import { supports, unsupportedMessage } from "./shared/backend.ts";
+import { loadConfig } from "./shared/config.ts";
+import {
+  findJournalRun,
+  listJournalRuns,
+  saveJournalRun,
+} from "./shared/journal.ts";
+
+export const printHistory = async (): Promise<void> => {
+  const runs = await listJournalRuns();
+
+  if (runs.length === 0) {
+    console.log("No runs recorded yet.");
+    return;
+  }
+
+  console.log(`\n${runs.length} recorded runs (newest first):\n`);
+  const showProfiles = runs.some((run) => run.profile);
+  for (const run of runs) {
+    const status = run.undoneAt
+      ? `undone ${new Date(run.undoneAt).toLocaleString()}`
+      : isUndoable(run.action) && supports(getBackend(run.backend), "undo")
+      ? "undoable"
+      : "not undoable";
+    console.log(
+      `  ${run.id}  ${
+        showProfiles ? `${(run.profile ?? "-").padEnd(10)} ` : ""
+      }${run.backend.padEnd(8)} ${actionLabel(run.action).padEnd(20)} ${
+        String(run.emails.length).padStart(5)
+      } emails  (${status})`,
+    );
+  }
+  console.log("");
+};
+
+export const undoRun = async (runId?: string): Promise<void> => {
+  const run = await findJournalRun(runId);
+
+  if (!run) {
+    console.error(
+      runId
+        ? `No run '${runId}' in the journal. See --history.`
+        : "Nothing to undo: no run with a trash, archive or move action is left. See --history.",
+    );
+    Deno.exitCode = 1;
+    return;
+  }
+
+  if (run.undoneAt) {
+    console.error(`Run ${run.id} was already undone at ${run.undoneAt}.`);
+    Deno.exitCode = 1;
+    return;
+  }
+
+  if (!isUndoable(run.action)) {
+    console.error(
+      `Run ${run.id} used --action ${
+        actionLabel(run.action)
+      }, which can't be undone.`,
+    );
+    Deno.exitCode = 1;
+    return;
+  }
+
+  // Restore with the tokens and settings of the account that made the run.
+  if (run.profile) await loadConfig({ profile: run.profile });
+
+  const backend = getBackend(run.backend);
+  if (!supports(backend, "undo")) {
+    console.error(unsupportedMessage(backend, "--undo"));
+    Deno.exitCode = 1;
+    return;
+  }
+
+  console.log(
+    `\nUndoing run ${run.id} (${
+      actionLabel(run.action)
+    }, ${run.emails.length} emails) via ${backend.displayName}...\n`,
+  );
+
+  const result = await backend.restore!(run.emails, run.action);
+
+  const notFound = new Set(result.notFound ?? []);
+  const missing = run.emails.filter((e) => notFound.has(e.id));
+
+  console.log(
+    `\nRestored ${result.succeeded}/${run.emails.length} emails to their original folders.`,
+  );
+
+  if (missing.length > 0) {
+    console.log(
+      `\n${missing.length} emails could no longer be found (trash emptied?):\n`,
+    );
+    for (const email of missing) {
+      console.log(`  - ${email.subject}`);
+      console.log(`    was in ${email.sourceLabel}, ${email.reason}`);
+    }
+  }
+
+  if (result.failed === 0) {
+    await saveJournalRun({ ...run, undoneAt: new Date().toISOString() });
+    return;
+  }
+
+  for (const error of result.errors) {
+    console.error(`  ${error}`);
+  }
+  Deno.exitCode = 1;
+
+  // Keep just the emails that failed, so the run can be undone again.
+  const failed = new Set(result.failedIds);
+  const remaining = run.emails.filter((e) => failed.has(e.id));
+  await saveJournalRun({ ...run, emails: remaining });
+  console.error(
+    `\n${remaining.length} emails weren't restored; run --undo ${run.id} to retry them.`,
+  );
+};
@@ -0,0 +1,124 @@
+import { assertEquals } from "@std/assert";
+import { graphBackend } from "./ms-graph/backend.ts";
+import type { BatchResult } from "./shared/backend.ts";
+import {
+  findJournalRun,
+  type JournalEmail,
+  type JournalRun,
+  listJournalRuns,
+  saveJournalRun,
+} from "./shared/journal.ts";
+import { undoRun } from "./undo.ts";
+
+const email = (id: string): JournalEmail => ({
+  id,
+  originalId: `orig-${id}`,
+  sourceFolder: "inbox",
+  sourceLabel: "Inbox",
+  subject: `Email ${id}`,
+  reason: "PR merged",
+});
+
+const run = (id: string, overrides: Partial<JournalRun> = {}): JournalRun => ({
+  id,
+  createdAt: new Date(0).toISOString(),
+  backend: "graph",
+  action: { kind: "trash" },
+  emails: [email("a"), email("b")],
+  ...overrides,
+});
+
+// Each test gets an empty config dir and a graph backend that restores
+// without a network.
+const withJournal = async (
+  restore: (emails: JournalEmail[]) => BatchResult,
+  fn: (restored: string[][]) => Promise<void>,
+) => {
+  const home = Deno.env.get("HOME");
+  const original = graphBackend.restore;
+  const { log, error } = console;
+  const restored: string[][] = [];
+  Deno.env.set("HOME", await Deno.makeTempDir());
+  graphBackend.restore = (emails) => {
+    restored.push(emails.map((e) => e.id));
+    return Promise.resolve(restore(emails));
+  };
+  console.log = console.error = () => {};
+  try {
+    await fn(restored);
+  } finally {
+    console.log = log;
+    console.error = error;
+    graphBackend.restore = original;
+    if (home) Deno.env.set("HOME", home);
+    Deno.exitCode = 0;
+  }
+};
+
+const restoreAll = (emails: JournalEmail[]): BatchResult => ({
+  succeeded: emails.length,
+  failed: 0,
+  skipped: 0,
+  errors: [],
+});
+
+Deno.test("the latest run skips undone and non-undoable runs", async () => {
+  await withJournal(restoreAll, async () => {
+    await saveJournalRun(run("2024-01-01T00-00-00Z"));
+    await saveJournalRun(
+      run("2024-01-02T00-00-00Z", { undoneAt: new Date().toISOString() }),
+    );
+    await saveJournalRun(
+      run("2024-01-03T00-00-00Z", { action: { kind: "mark-read" } }),
+    );
+
+    assertEquals((await findJournalRun())?.id, "2024-01-01T00-00-00Z");
+    assertEquals(
+      (await findJournalRun("2024-01-03T00-00-00Z"))?.action.kind,
+      "mark-read",
+    );
+    assertEquals(await findJournalRun("missing"), null);
+  });
+});
+
+Deno.test("a fully restored run is marked undone", async () => {
+  await withJournal(restoreAll, async (restored) => {
+    await saveJournalRun(run("2024-01-01T00-00-00Z"));
+
+    await undoRun();
+
+    assertEquals(restored, [["a", "b"]]);
+    const [saved] = await listJournalRuns();
+    assertEquals(saved.emails.length, 2);
+    assertEquals(typeof saved.undoneAt, "string");
+    assertEquals(await findJournalRun(), null);
+  });
+});
+
+Deno.test("a partly restored run keeps the failed emails for a retry", async () => {
+  let attempt = 0;
+  const failFirst = (emails: JournalEmail[]): BatchResult =>
+    attempt++ === 0
+      ? {
+        succeeded: 1,
+        failed: 1,
+        skipped: 0,
+        errors: ["b: server error"],
+        failedIds: ["b"],
+      }
+      : restoreAll(emails);
+
+  await withJournal(failFirst, async (restored) => {
+    await saveJournalRun(run("2024-01-01T00-00-00Z"));
+
+    await undoRun();
+    assertEquals(Deno.exitCode, 1);
+    const [partial] = await listJournalRuns();
+    assertEquals(partial.emails.map((e) => e.id), ["b"]);
+    assertEquals(partial.undoneAt, undefined);
+
+    await undoRun("2024-01-01T00-00-00Z");
+    assertEquals(restored, [["a", "b"], ["b"]]);
+    assertEquals(typeof (await listJournalRuns())[0].undoneAt, "string");
+  });
+});